@@ -1,17 +1,39 @@
-import { useState, useEffect, useCallback, useRef, RefObject } from 'react';
-import axios, { AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
+import { useState, useEffect, useCallback, useRef, useMemo, useContext, useSyncExternalStore, createContext, createElement, RefObject, ReactNode } from 'react';
+import axios, {
+    AxiosAdapter,
+    AxiosRequestConfig,
+    AxiosResponse,
+    AxiosError,
+    AxiosInstance,
+    AxiosInterceptorManager,
+    InternalAxiosRequestConfig,
+} from 'axios';
+import { useIntersectionObserver } from './hooksComp';
 
 interface UseAxiosResponse<T> {
     data: T | null;
     loading: boolean;
     error: string | null;
-    makeRequest: (url: string, method?: string, requestData?: any) => void;
+    makeRequest: (url: string, method?: string, requestData?: any, requestConfig?: AxiosRequestConfig) => Promise<T | null>;
     cancelRequest: () => void;
+    instance: AxiosInstance;
+}
+
+interface AxiosInterceptor<V> {
+    onFulfilled?: (value: V) => V | Promise<V>;
+    onRejected?: (error: any, instance: AxiosInstance) => any;
+}
+
+export interface AxiosInterceptors {
+    request?: AxiosInterceptor<InternalAxiosRequestConfig>[];
+    response?: AxiosInterceptor<AxiosResponse>[];
 }
 
 interface UseAxiosConfig extends AxiosRequestConfig {
     baseURL?: string;
     headers?: { [key: string]: string };
+    interceptors?: AxiosInterceptors;
+    cacheKey?: string;
 }
 
 const isReady = (): boolean => {
@@ -20,53 +42,374 @@ const isReady = (): boolean => {
         : false;
 };
 
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface HooksConfig {
+    fetch?: Transport;
+    baseURL?: string;
+    headers?: Record<string, string>;
+    axiosAdapter?: AxiosAdapter;
+}
+
+const HooksContext = createContext<HooksConfig>({});
+
+export const HooksProvider = ({ value, children }: { value: HooksConfig; children?: ReactNode }) =>
+    createElement(HooksContext.Provider, { value }, children);
+
+const resolveUrl = (baseURL: string | undefined, url: string): string =>
+    !baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(url)
+        ? url
+        : `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+
+const normalizeHeaders = (headers?: HeadersInit): Record<string, string> => {
+    const normalized: Record<string, string> = {};
+    if (headers) new Headers(headers).forEach((value, name) => (normalized[name] = value));
+    return normalized;
+};
+
+// The global fetch is looked up per call so test doubles installed after import are still picked up.
+const createTransport = (config: HooksConfig): Transport => (url, init = {}) => {
+    const transport: Transport = config.fetch || ((input, requestInit) => fetch(input, requestInit));
+    const headers = config.headers ? { ...config.headers, ...normalizeHeaders(init.headers) } : init.headers;
+    return transport(resolveUrl(config.baseURL, url), { ...init, headers });
+};
+
+const defaultTransport = createTransport({});
+
+const createConfiguredAxios = (config: HooksConfig, overrides: AxiosRequestConfig = {}): AxiosInstance =>
+    axios.create({
+        ...overrides,
+        baseURL: overrides.baseURL || config.baseURL || '',
+        headers: { ...config.headers, ...(overrides.headers as Record<string, string> | undefined) },
+        adapter: overrides.adapter || config.axiosAdapter,
+    });
+
+export const useHooksConfig = (): HooksConfig => useContext(HooksContext);
+
+// Providers are often given an inline `value`, so identity is derived from the fields rather than the object.
+const useStableHooksConfig = (): HooksConfig => {
+    const { fetch: customFetch, baseURL, headers, axiosAdapter } = useHooksConfig();
+    const headersKey = JSON.stringify(headers ?? null);
+    return useMemo(
+        () => ({ fetch: customFetch, baseURL, headers, axiosAdapter }),
+        [customFetch, baseURL, headersKey, axiosAdapter]
+    );
+};
+
+export const useTransport = (): Transport => {
+    const config = useStableHooksConfig();
+    return useMemo(() => createTransport(config), [config]);
+};
+
+export interface MockRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body: unknown;
+    timestamp: number;
+}
+
+export interface MockRoute {
+    url: string | RegExp;
+    method?: string;
+    status?: number;
+    headers?: Record<string, string>;
+    body?: unknown | ((request: MockRequest) => unknown | Promise<unknown>);
+    delay?: number;
+    error?: string;
+    times?: number;
+}
+
+export interface MockAdapterOptions {
+    routes?: MockRoute[];
+    latency?: number;
+}
+
+interface MockResult {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+}
+
+export interface MockAdapter extends HooksConfig {
+    fetch: Transport;
+    axiosAdapter: AxiosAdapter;
+    requests: MockRequest[];
+    on: (route: MockRoute) => MockAdapter;
+    reset: () => void;
+}
+
+const parseMockBody = (body: unknown): unknown => {
+    if (typeof body !== 'string') return body ?? null;
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+};
+
+export const createMockAdapter = ({ routes = [], latency = 0 }: MockAdapterOptions = {}): MockAdapter => {
+    let table: (MockRoute & { calls: number })[] = [];
+
+    const findRoute = (request: MockRequest) =>
+        table.find(
+            (route) =>
+                (!route.method || route.method.toUpperCase() === request.method) &&
+                (typeof route.url === 'string' ? route.url === request.url : route.url.test(request.url)) &&
+                (route.times === undefined || route.calls < route.times)
+        );
+
+    const resolve = async (request: MockRequest, signal?: AbortSignal | null): Promise<MockResult> => {
+        adapter.requests.push(request);
+        const route = findRoute(request);
+        if (route) route.calls++;
+
+        await sleep(latency + (route?.delay || 0), signal || undefined);
+
+        if (!route) {
+            return {
+                status: 404,
+                headers: { 'content-type': 'application/json' },
+                body: { message: `No mock route for ${request.method} ${request.url}` },
+            };
+        }
+        if (route.error) throw new Error(route.error);
+
+        const body = route.body instanceof Function ? await route.body(request) : route.body;
+        return {
+            status: route.status ?? 200,
+            headers: { 'content-type': 'application/json', ...route.headers },
+            body: body ?? null,
+        };
+    };
+
+    const adapter: MockAdapter = {
+        requests: [],
+        fetch: async (url, init = {}) => {
+            const result = await resolve(
+                {
+                    method: (init.method || 'GET').toUpperCase(),
+                    url,
+                    headers: normalizeHeaders(init.headers),
+                    body: parseMockBody(init.body),
+                    timestamp: Date.now(),
+                },
+                init.signal
+            );
+            const body = result.body === null || typeof result.body === 'string' ? result.body : JSON.stringify(result.body);
+            return new Response(body as string | null, { status: result.status, headers: result.headers });
+        },
+        axiosAdapter: async (config) => {
+            const result = await resolve(
+                {
+                    method: (config.method || 'GET').toUpperCase(),
+                    url: axios.getUri(config),
+                    headers: normalizeHeaders(config.headers.toJSON() as Record<string, string>),
+                    body: parseMockBody(config.data),
+                    timestamp: Date.now(),
+                },
+                config.signal as AbortSignal | undefined
+            );
+            const response: AxiosResponse = {
+                data: result.body,
+                status: result.status,
+                statusText: '',
+                headers: result.headers,
+                config,
+            };
+
+            const validateStatus = config.validateStatus || ((status: number) => status >= 200 && status < 300);
+            if (!validateStatus(result.status)) {
+                throw new AxiosError(
+                    `Request failed with status code ${result.status}`,
+                    result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+                    config,
+                    null,
+                    response
+                );
+            }
+            return response;
+        },
+        on: (route) => {
+            table.push({ ...route, calls: 0 });
+            return adapter;
+        },
+        reset: () => {
+            table = [];
+            adapter.requests.length = 0;
+        },
+    };
+
+    routes.forEach(adapter.on);
+    return adapter;
+};
+
+export const createAuthInterceptor = (
+    getToken: () => string | null | Promise<string | null>,
+    scheme: string = 'Bearer'
+): AxiosInterceptor<InternalAxiosRequestConfig> => ({
+    onFulfilled: async (requestConfig) => {
+        const token = await getToken();
+        if (token) requestConfig.headers.set('Authorization', `${scheme} ${token}`);
+        return requestConfig;
+    },
+});
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _authRetried?: boolean };
+
+export const createRefreshInterceptor = (
+    refresh: () => Promise<unknown>,
+    shouldRefresh: (error: AxiosError) => boolean = (error) => error.response?.status === 401
+): AxiosInterceptor<AxiosResponse> => {
+    // Concurrent 401s wait on a single refresh instead of each starting their own.
+    let refreshing: Promise<unknown> | null = null;
+
+    return {
+        onRejected: async (error, instance) => {
+            const requestConfig = error?.config as RetriableRequestConfig | undefined;
+            if (!axios.isAxiosError(error) || !requestConfig || requestConfig._authRetried || !shouldRefresh(error)) {
+                throw error;
+            }
+
+            if (!refreshing) {
+                refreshing = refresh().finally(() => {
+                    refreshing = null;
+                });
+            }
+            await refreshing;
+
+            requestConfig._authRetried = true;
+            return instance(requestConfig);
+        },
+    };
+};
+
 export const useAxios = <T>(config: UseAxiosConfig = {}): UseAxiosResponse<T> => {
     const [data, setData] = useState<T | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [cancelled, setCancelled] = useState(false);
 
-    const axiosInstance = axios.create({
-        baseURL: config.baseURL || '',
-        headers: config.headers || {},
-    });
+    const { interceptors, cacheKey, ...instanceConfig } = config;
+    // Function-valued options (adapter, transformRequest, ...) don't serialize, so swapping one alone keeps the instance.
+    const instanceKey = JSON.stringify(instanceConfig);
+    const hooksConfig = useStableHooksConfig();
+
+    const interceptorsRef = useRef(interceptors);
+    interceptorsRef.current = interceptors;
+    const requestCount = interceptors?.request?.length ?? 0;
+    const responseCount = interceptors?.response?.length ?? 0;
+
+    // Interceptors are attached while the instance is created, so requests sent from child effects on mount
+    // already go through them. The handlers look up the latest interceptors, so only a change in count rebuilds.
+    const axiosInstance = useMemo(() => {
+        const instance = createConfiguredAxios(hooksConfig, instanceConfig);
+        const register = <V>(
+            manager: AxiosInterceptorManager<V>,
+            count: number,
+            pick: (current: AxiosInterceptors) => AxiosInterceptor<V>[] | undefined
+        ) => {
+            for (let index = 0; index < count; index++) {
+                const current = () => pick(interceptorsRef.current || {})?.[index];
+                manager.use(
+                    (value) => {
+                        const onFulfilled = current()?.onFulfilled;
+                        return onFulfilled ? onFulfilled(value) : value;
+                    },
+                    (err) => {
+                        const onRejected = current()?.onRejected;
+                        if (!onRejected) throw err;
+                        return onRejected(err, instance);
+                    }
+                );
+            }
+        };
+
+        register(instance.interceptors.request, requestCount, (current) => current.request);
+        register(instance.interceptors.response, responseCount, (current) => current.response);
+        return instance;
+    }, [hooksConfig, instanceKey, requestCount, responseCount]);
+
+    const controllersRef = useRef(new Set<AbortController>());
+    const latestRequestRef = useRef(0);
+    const mountedRef = useRef(true);
+    const lastGetRequestRef = useRef<AxiosRequestConfig | null>(null);
 
-    const cancelRequest = () => setCancelled(true);
+    // With a cacheKey, data lives in the shared query cache so mutations can update or invalidate it.
+    useEffect(() => {
+        if (!cacheKey) return;
+
+        const entry = getQueryEntry<T>(cacheKey);
+        entry.fetcher = () => {
+            const lastGetRequest = lastGetRequestRef.current;
+            return lastGetRequest
+                ? axiosInstance(lastGetRequest).then((response: AxiosResponse<T>) => response.data)
+                : Promise.resolve(entry.data as T);
+        };
+
+        if (entry.data !== null) setData(entry.data);
+        return subscribeQueryEntry(entry, () => setData(entry.data));
+    }, [cacheKey, axiosInstance]);
+
+    const cancelRequest = useCallback(() => {
+        controllersRef.current.forEach((controller) => controller.abort());
+        controllersRef.current.clear();
+        if (mountedRef.current) setLoading(false);
+    }, []);
 
     const makeRequest = useCallback(
-        async (url: string, method = 'GET', requestData: any = {}) => {
-            if (cancelled) return;
+        async (url: string, method = 'GET', requestData: any = {}, requestConfig: AxiosRequestConfig = {}) => {
+            const requestId = ++latestRequestRef.current;
+            const controller = new AbortController();
+            controllersRef.current.add(controller);
+            // Only the most recent call may write state, so a slow earlier response cannot overwrite newer data.
+            const isLatest = () => mountedRef.current && requestId === latestRequestRef.current;
+
+            const isGet = method.toUpperCase() === 'GET';
+            const fullConfig: AxiosRequestConfig = {
+                ...requestConfig,
+                url,
+                method,
+                data: requestData,
+                params: isGet ? requestData : requestConfig.params,
+            };
 
             setLoading(true);
             setError(null);
 
             try {
-                const response: AxiosResponse<T> = await axiosInstance({
-                    url,
-                    method,
-                    data: requestData,
-                    params: method === 'GET' ? requestData : undefined,
-                });
-
-                if (!cancelled) {
-                    setData(response.data);
+                const response: AxiosResponse<T> = await axiosInstance({ ...fullConfig, signal: controller.signal });
+
+                if (isLatest()) {
+                    if (cacheKey) {
+                        if (isGet) lastGetRequestRef.current = fullConfig;
+                        setQueryData<T>(cacheKey, response.data);
+                    } else {
+                        setData(response.data);
+                    }
                 }
+                return response.data;
             } catch (err) {
-                if (!cancelled) {
+                if (isLatest() && !axios.isCancel(err)) {
                     setError(err instanceof AxiosError ? err.message : 'An error occurred');
                 }
+                return null;
             } finally {
-                if (!cancelled) {
+                controllersRef.current.delete(controller);
+                if (isLatest()) {
                     setLoading(false);
                 }
             }
         },
-        [cancelled, axiosInstance]
+        [axiosInstance, cacheKey]
     );
 
     useEffect(() => {
-        return () => cancelRequest();
-    }, []);
+        mountedRef.current = true;
+        return () => {
+            mountedRef.current = false;
+            cancelRequest();
+        };
+    }, [cancelRequest]);
 
     return {
         data,
@@ -74,741 +417,4934 @@ export const useAxios = <T>(config: UseAxiosConfig = {}): UseAxiosResponse<T> =>
         error,
         makeRequest,
         cancelRequest,
+        instance: axiosInstance,
     };
 };
 
-export const useAdvReducer = <State, Action extends { type: string }>(
-    initialState: State,
-    actions: Record<string, (state: State, action: Action) => State>
-) => (state: State = initialState, action: Action): State => {
-    if (actions[action.type]) {
-        return actions[action.type](state, action);
-    }
-    return state;
+type AdvReducerHandlers<State> = Record<string, (state: State, action: any) => State>;
+
+type HandlerPayload<H> = H extends (state: any, action: infer A) => any ? (A extends { payload: infer P } ? P : undefined) : undefined;
+
+export type AdvReducerAction<Handlers> = {
+    [K in keyof Handlers & string]: { type: K; payload: HandlerPayload<Handlers[K]> };
+}[keyof Handlers & string];
+
+export type ActionCreators<Handlers> = {
+    [K in keyof Handlers & string]: undefined extends HandlerPayload<Handlers[K]>
+        ? (payload?: HandlerPayload<Handlers[K]>) => { type: K; payload: HandlerPayload<Handlers[K]> }
+        : (payload: HandlerPayload<Handlers[K]>) => { type: K; payload: HandlerPayload<Handlers[K]> };
 };
 
-interface FetchState<T> {
-    data: T | null;
-    loading: boolean;
-    error: string | null;
+export type AdvThunk<State, Action, R = unknown> = (dispatch: AdvDispatch<State, Action>, getState: () => State) => R;
+
+export interface AdvDispatch<State, Action> {
+    (action: Action): Action;
+    <R>(thunk: AdvThunk<State, Action, R>): R;
 }
 
-export function useFetch<T>(url: string): FetchState<T> {
-    const [state, setState] = useState<FetchState<T>>({
-        data: null,
-        loading: true,
-        error: null,
-    });
+export interface MiddlewareAPI<State> {
+    getState: () => State;
+    dispatch: (action: any) => any;
+}
 
-    useEffect(() => {
-        const fetchData = async () => {
+export type Middleware<State> = ((api: MiddlewareAPI<State>) => (next: (action: any) => any) => (action: any) => any) & {
+    hydrate?: (state: State) => State;
+};
+
+export interface AdvReducerLogEntry<State> {
+    action: { type: string };
+    state: State;
+    timestamp: number;
+}
+
+export interface AdvReducerDevtools<State> {
+    log: AdvReducerLogEntry<State>[];
+    currentIndex: number;
+    jumpTo: (index: number) => void;
+    undo: () => void;
+    redo: () => void;
+    clear: () => void;
+}
+
+export interface AdvReducerOptions<State> {
+    // Read on mount only; later changes to the list are ignored.
+    middleware?: Middleware<State>[];
+    devtools?: boolean | { maxEntries?: number };
+}
+
+export const thunkMiddleware: Middleware<any> =
+    ({ getState, dispatch }) =>
+    (next) =>
+    (action) =>
+        typeof action === 'function' ? action(dispatch, getState) : next(action);
+
+export const loggerMiddleware: Middleware<any> =
+    ({ getState }) =>
+    (next) =>
+    (action) => {
+        if (typeof action === 'function') return next(action);
+
+        const prevState = getState();
+        const result = next(action);
+        console.groupCollapsed(`action ${action.type}`);
+        console.log('prev state', prevState);
+        console.log('action', action);
+        console.log('next state', getState());
+        console.groupEnd();
+        return result;
+    };
+
+// Writes through the same storage and subscribers as usePersistedState, so both stay in step on the same key.
+export const createPersistMiddleware = <State>(
+    key: string,
+    options: { area?: StorageArea; serializer?: Serializer<State> } = {}
+): Middleware<State> => {
+    const { area = 'local', serializer = jsonSerializer as Serializer<State> } = options;
+
+    const middleware: Middleware<State> =
+        ({ getState }) =>
+        (next) =>
+        (action) => {
+            const result = next(action);
             try {
-                const response = await fetch(url);
-                if (!response.ok) throw new Error(`Error: ${response.statusText}`);
-                const data: T = await response.json();
-                setState({ data, loading: false, error: null });
+                getStorage(area)?.setItem(key, serializer.serialize(getState()));
+                notifyStorageSubscribers(area, key);
             } catch (error) {
-                setState({ data: null, loading: false, error: (error as Error).message });
+                console.warn(`Error persisting reducer state to ${area}Storage key "${key}":`, error);
             }
+            return result;
         };
 
-        fetchData();
-    }, [url]);
-
-    return state;
-}
-
-export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T) => void] {
-    const [storedValue, setStoredValue] = useState<T>(() => {
-        try {
-            const item = localStorage.getItem(key);
-            return item ? JSON.parse(item) : initialValue;
-        } catch {
-            return initialValue;
-        }
+    return Object.assign(middleware, {
+        hydrate: (state: State): State => {
+            try {
+                const raw = getStorage(area)?.getItem(key);
+                return raw == null ? state : serializer.deserialize(raw);
+            } catch {
+                return state;
+            }
+        },
     });
+};
 
-    const setValue = (value: T) => {
-        try {
-            setStoredValue(value);
-            localStorage.setItem(key, JSON.stringify(value));
-        } catch (error) {
-            console.error('Error saving to localStorage', error);
-        }
-    };
+const TIME_TRAVEL = '@@TIME_TRAVEL';
 
-    return [storedValue, setValue];
+interface DevtoolsState<State> {
+    log: AdvReducerLogEntry<State>[];
+    currentIndex: number;
 }
 
+export const useAdvReducer = <State, Handlers extends AdvReducerHandlers<State>>(
+    initialState: State,
+    handlers: Handlers,
+    options: AdvReducerOptions<State> = {}
+): [
+    State,
+    AdvDispatch<State, AdvReducerAction<Handlers>>,
+    ActionCreators<Handlers>,
+    AdvReducerDevtools<State> | null,
+] => {
+    const { devtools = false } = options;
+    const maxEntries = typeof devtools === 'object' ? devtools.maxEntries ?? 50 : 50;
+    const middleware = options.middleware ?? [];
+    const handlersRef = useRef(handlers);
+    handlersRef.current = handlers;
+    const maxEntriesRef = useRef(maxEntries);
+    maxEntriesRef.current = maxEntries;
+
+    const [state, setState] = useState<State>(() =>
+        middleware.reduce((current, item) => item.hydrate?.(current) ?? current, initialState)
+    );
+    const stateRef = useRef(state);
 
-export function useToggle(initialValue: boolean = false): [boolean, () => void] {
-    const [value, setValue] = useState(initialValue);
+    const createLog = (current: State): DevtoolsState<State> => ({
+        log: [{ action: { type: '@@INIT' }, state: current, timestamp: Date.now() }],
+        currentIndex: 0,
+    });
+    const [devtoolsState, setDevtoolsState] = useState<DevtoolsState<State>>(() => createLog(state));
+    const devtoolsRef = useRef(devtoolsState);
+    const devtoolsEnabledRef = useRef(!!devtools);
+    devtoolsEnabledRef.current = !!devtools;
+
+    const updateDevtools = useCallback((update: (prev: DevtoolsState<State>) => DevtoolsState<State>) => {
+        devtoolsRef.current = update(devtoolsRef.current);
+        setDevtoolsState(devtoolsRef.current);
+    }, []);
 
-    const toggle = () => setValue((prev) => !prev);
+    // The end of the chain: applies handlers, or restores a logged state when time travelling.
+    const reduce = useCallback(
+        (action: any) => {
+            if (action.type === TIME_TRAVEL) {
+                stateRef.current = action.state;
+                setState(action.state);
+                return action;
+            }
 
-    return [value, toggle];
-}
+            const handler = handlersRef.current[action.type];
+            if (!handler) return action;
+
+            const nextState = handler(stateRef.current, action);
+            stateRef.current = nextState;
+            setState(nextState);
+
+            // Dispatching after a jump back discards the "future" entries, like an undo stack.
+            if (devtoolsEnabledRef.current) {
+                updateDevtools((prev) => {
+                    const log = prev.log
+                        .slice(0, prev.currentIndex + 1)
+                        .concat({ action, state: nextState, timestamp: Date.now() })
+                        .slice(-maxEntriesRef.current);
+                    return { log, currentIndex: log.length - 1 };
+                });
+            }
+            return action;
+        },
+        [updateDevtools]
+    );
 
-export function useDebounce<T>(value: T, delay: number): T {
-    const [debouncedValue, setDebouncedValue] = useState(value);
+    // Like a Redux store, the middleware list is captured on mount and composed once, so each middleware's
+    // setup and closure state survive re-renders even when the list is written inline.
+    const chainRef = useRef<{ dispatch: (action: any) => any } | null>(null);
+    if (!chainRef.current) {
+        const api: MiddlewareAPI<State> = {
+            getState: () => stateRef.current,
+            dispatch: (action) => chainRef.current!.dispatch(action),
+        };
+        chainRef.current = {
+            dispatch: middleware.reduceRight<(action: any) => any>((next, item) => item(api)(next), reduce),
+        };
+    }
 
-    useEffect(() => {
-        const handler = setTimeout(() => setDebouncedValue(value), delay);
-        return () => clearTimeout(handler);
-    }, [value, delay]);
+    const dispatch = useCallback((action: any) => chainRef.current!.dispatch(action), []) as AdvDispatch<
+        State,
+        AdvReducerAction<Handlers>
+    >;
 
-    return debouncedValue;
-}
+    const actionKeys = Object.keys(handlers).join('|');
+    const actions = useMemo(() => {
+        const creators: Record<string, (payload?: unknown) => { type: string; payload: unknown }> = {};
+        Object.keys(handlersRef.current).forEach((type) => {
+            creators[type] = (payload) => ({ type, payload });
+        });
+        return creators as ActionCreators<Handlers>;
+    }, [actionKeys]);
 
-export function useThrottle<T>(value: T, limit: number): T {
-    const [throttledValue, setThrottledValue] = useState(value);
+    // Time travel skips the handlers but still runs through middleware, so persistence follows the jump.
+    const jumpTo = useCallback(
+        (index: number) => {
+            const entry = devtoolsRef.current.log[index];
+            if (!entry) return;
 
-    useEffect(() => {
-        const handler = setTimeout(() => setThrottledValue(value), limit);
-        return () => clearTimeout(handler);
-    }, [value, limit]);
+            chainRef.current!.dispatch({ type: TIME_TRAVEL, state: entry.state, index });
+            updateDevtools((prev) => ({ ...prev, currentIndex: index }));
+        },
+        [updateDevtools]
+    );
 
-    return throttledValue;
-}
+    const undo = useCallback(() => jumpTo(devtoolsRef.current.currentIndex - 1), [jumpTo]);
 
-export function usePrevious<T>(value: T): T | undefined {
-    const ref = useRef<T>();
+    const redo = useCallback(() => jumpTo(devtoolsRef.current.currentIndex + 1), [jumpTo]);
 
-    useEffect(() => {
-        ref.current = value;
-    });
+    const clear = useCallback(() => updateDevtools(() => createLog(stateRef.current)), [updateDevtools]);
 
-    return ref.current;
-}
+    const devtoolsApi = useMemo<AdvReducerDevtools<State>>(
+        () => ({ ...devtoolsState, jumpTo, undo, redo, clear }),
+        [devtoolsState, jumpTo, undo, redo, clear]
+    );
 
-export function useMediaQuery(query: string): boolean {
-    const [matches, setMatches] = useState(false);
+    return [state, dispatch, actions, devtools ? devtoolsApi : null];
+};
 
-    useEffect(() => {
-        const mediaQueryList = window.matchMedia(query);
-        const updateMatch = () => setMatches(mediaQueryList.matches);
+// Maps each action name to its argument tuple; handlers receive the current state first.
+export type StoreActions<State, Args extends Record<string, unknown[]>> = {
+    [K in keyof Args]: (state: State, ...args: Args[K]) => State;
+};
 
-        updateMatch();
-        mediaQueryList.addEventListener('change', updateMatch);
+export type BoundStoreActions<Args extends Record<string, unknown[]>> = {
+    [K in keyof Args]: (...args: Args[K]) => void;
+};
 
-        return () => mediaQueryList.removeEventListener('change', updateMatch);
-    }, [query]);
+export interface StorePersistOptions<State> extends StorageOptions<State> {
+    key: string;
+    area?: StorageArea;
+}
 
-    return matches;
+export interface StoreOptions<State> {
+    persist?: StorePersistOptions<State>;
 }
 
-export function useClipboard(): [boolean, (text: string) => Promise<void>] {
-    const [copied, setCopied] = useState(false);
+export interface Store<State, Args extends Record<string, unknown[]> = Record<string, unknown[]>> {
+    getState: () => State;
+    getInitialState: () => State;
+    setState: (update: React.SetStateAction<State>) => void;
+    subscribe: (listener: () => void) => () => void;
+    actions: BoundStoreActions<Args>;
+    useStore: <Selected = State>(selector?: (state: State) => Selected, equalityFn?: (a: Selected, b: Selected) => boolean) => Selected;
+    destroy: () => void;
+}
 
-    const copyToClipboard = async (text: string) => {
+export const shallowEqual = <T>(a: T, b: T): boolean => {
+    if (Object.is(a, b)) return true;
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+
+    const keysA = Object.keys(a) as (keyof T)[];
+    if (keysA.length !== Object.keys(b).length) return false;
+    return keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+};
+
+export const createStore = <State, Args extends Record<string, unknown[]> = Record<never, never>>(
+    initialState: State,
+    actions: StoreActions<State, Args> = {} as StoreActions<State, Args>,
+    options: StoreOptions<State> = {}
+): Store<State, Args> => {
+    const { persist } = options;
+    const area = persist?.area ?? 'local';
+    const listeners = new Set<() => void>();
+    let lastRaw: string | null = null;
+
+    const readPersisted = (): State => {
+        if (!persist) return initialState;
         try {
-            await navigator.clipboard.writeText(text);
-            setCopied(true);
-            setTimeout(() => setCopied(false), 2000); // Reset after 2 seconds
-        } catch (error) {
-            console.error('Failed to copy text to clipboard', error);
+            lastRaw = getStorage(area)?.getItem(persist.key) ?? null;
+        } catch {
+            lastRaw = null;
         }
+        const decoded = decodeStorageValue(area, persist.key, lastRaw, initialState, persist);
+        lastRaw = decoded.raw;
+        return decoded.value;
     };
 
-    return [copied, copyToClipboard];
-}
+    // On the server this is just initialState; on the client the persisted value is read once up front.
+    let state = readPersisted();
 
+    const emit = () => Array.from(listeners).forEach((listener) => listener());
 
-export function useInterval(callback: () => void, delay: number | null): void {
-    const savedCallback = useRef<() => void>();
+    const setState = (update: React.SetStateAction<State>) => {
+        const next = update instanceof Function ? update(state) : update;
+        if (Object.is(next, state)) return;
+        state = next;
 
-    useEffect(() => {
-        savedCallback.current = callback;
-    }, [callback]);
+        const storage = persist ? getStorage(area) : null;
+        if (persist && storage) {
+            try {
+                lastRaw = encodeStorageValue(next, getExpiresAt(persist), persist);
+                storage.setItem(persist.key, lastRaw);
+                notifyStorageSubscribers(area, persist.key);
+            } catch (error) {
+                console.warn(`Error setting ${area}Storage key "${persist.key}":`, error);
+            }
+        }
+        emit();
+    };
 
-    useEffect(() => {
-        if (delay === null) return;
+    // Picks up writes from usePersistedState instances on the same key and from other tabs.
+    const syncFromStorage = () => {
+        if (!persist) return;
 
-        const tick = () => savedCallback.current?.();
-        const id = setInterval(tick, delay);
-        return () => clearInterval(id);
-    }, [delay]);
-}
+        let raw: string | null = null;
+        try {
+            raw = getStorage(area)?.getItem(persist.key) ?? null;
+        } catch {
+            return;
+        }
+        if (raw === lastRaw) return;
 
+        state = readPersisted();
+        emit();
+    };
 
-interface WindowSize {
-    width: number;
-    height: number;
-}
+    const cleanups: (() => void)[] = [];
+    if (persist) {
+        const subscriberKey = `${area}:${persist.key}`;
+        if (!storageSubscribers.has(subscriberKey)) storageSubscribers.set(subscriberKey, new Set());
+        const subscribers = storageSubscribers.get(subscriberKey)!;
+        subscribers.add(syncFromStorage);
+        cleanups.push(() => subscribers.delete(syncFromStorage));
+
+        if (persist.sync !== false && isReady()) {
+            const handleStorage = (event: StorageEvent) => {
+                if (event.storageArea === getStorage(area) && (event.key === persist.key || event.key === null)) {
+                    syncFromStorage();
+                }
+            };
+            window.addEventListener('storage', handleStorage);
+            cleanups.push(() => window.removeEventListener('storage', handleStorage));
+        }
+    }
 
-export function useWindowSize(): WindowSize {
-    const [windowSize, setWindowSize] = useState<WindowSize>({
-        width: window.innerWidth,
-        height: window.innerHeight,
+    const boundActions = {} as Record<string, (...args: unknown[]) => void>;
+    Object.keys(actions).forEach((name) => {
+        boundActions[name] = (...args) => setState((current) => actions[name](current, ...(args as Args[string])));
     });
 
-    useEffect(() => {
-        const handleResize = () => {
-            setWindowSize({
-                width: window.innerWidth,
-                height: window.innerHeight,
-            });
-        };
+    const store: Store<State, Args> = {
+        getState: () => state,
+        getInitialState: () => initialState,
+        setState,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        actions: boundActions as BoundStoreActions<Args>,
+        useStore: (selector, equalityFn) => useStore(store, selector, equalityFn),
+        destroy: () => {
+            cleanups.forEach((cleanup) => cleanup());
+            listeners.clear();
+        },
+    };
+    return store;
+};
 
-        window.addEventListener('resize', handleResize);
-        return () => window.removeEventListener('resize', handleResize);
-    }, []);
+const identity = <T>(value: T): T => value;
 
-    return windowSize;
-}
+export function useStore<State, Selected = State>(
+    store: Store<State, any>,
+    selector: (state: State) => Selected = identity as (state: State) => Selected,
+    equalityFn: (a: Selected, b: Selected) => boolean = Object.is
+): Selected {
+    const lastSelectionRef = useRef<{ value: Selected } | null>(null);
 
-export function useKeyPress(targetKey: string): boolean {
-    const [isKeyPressed, setIsKeyPressed] = useState(false);
-
-    const handleKeyDown = ({ key }: KeyboardEvent) => {
-        if (key === targetKey) setIsKeyPressed(true);
-    };
-
-    const handleKeyUp = ({ key }: KeyboardEvent) => {
-        if (key === targetKey) setIsKeyPressed(false);
-    };
+    // Memoizes per state snapshot and keeps the previous selection while equalityFn says nothing changed,
+    // so useSyncExternalStore sees a stable value and the component skips the re-render.
+    const [getSnapshot, getServerSnapshot] = useMemo(() => {
+        let memo: { state: State; selection: Selected } | null = null;
 
-    useEffect(() => {
-        window.addEventListener('keydown', handleKeyDown);
-        window.addEventListener('keyup', handleKeyUp);
+        const select = (nextState: State): Selected => {
+            if (memo && Object.is(memo.state, nextState)) return memo.selection;
 
-        return () => {
-            window.removeEventListener('keydown', handleKeyDown);
-            window.removeEventListener('keyup', handleKeyUp);
+            const nextSelection = selector(nextState);
+            const previous = memo ? { value: memo.selection } : lastSelectionRef.current;
+            const selection = previous && equalityFn(previous.value, nextSelection) ? previous.value : nextSelection;
+            memo = { state: nextState, selection };
+            return selection;
         };
-    }, [targetKey]);
 
-    return isKeyPressed;
-}
+        return [() => select(store.getState()), () => select(store.getInitialState())];
+    }, [store, selector, equalityFn]);
 
-export function useOnlineStatus(): boolean {
-    const [isOnline, setIsOnline] = useState(navigator.onLine);
+    const selection = useSyncExternalStore(store.subscribe, getSnapshot, getServerSnapshot);
 
     useEffect(() => {
-        const handleOnline = () => setIsOnline(true);
-        const handleOffline = () => setIsOnline(false);
+        lastSelectionRef.current = { value: selection };
+    }, [selection]);
 
-        window.addEventListener('online', handleOnline);
-        window.addEventListener('offline', handleOffline);
+    return selection;
+}
 
-        return () => {
-            window.removeEventListener('online', handleOnline);
-            window.removeEventListener('offline', handleOffline);
-        };
-    }, []);
+interface FetchState<T> {
+    data: T | null;
+    loading: boolean;
+    error: string | null;
+}
 
-    return isOnline;
+export interface QueryOptions {
+    key?: ReadonlyArray<unknown>;
+    staleTime?: number;
+    cacheTime?: number;
+    enabled?: boolean;
+    refetchInterval?: number | null;
+    polling?: PollingOptions;
 }
 
-interface ScrollPosition {
-    x: number;
-    y: number;
+export interface QueryState<T> extends FetchState<T> {
+    isFetching: boolean;
+    isStale: boolean;
+    updatedAt: number;
+    refetch: () => Promise<T | null>;
 }
 
-export function useScrollPosition(): ScrollPosition {
-    const [scrollPosition, setScrollPosition] = useState<ScrollPosition>({
-        x: window.scrollX,
-        y: window.scrollY,
-    });
+interface QueryEntry<T = any> {
+    hash: string;
+    scope: string;
+    url: string;
+    key: ReadonlyArray<unknown>;
+    data: T | null;
+    error: string | null;
+    updatedAt: number;
+    invalidated: boolean;
+    promise: Promise<T | null> | null;
+    fetcher: (() => Promise<T>) | null;
+    listeners: Set<() => void>;
+    cacheTime: number;
+    gcTimeout: ReturnType<typeof setTimeout> | null;
+}
 
-    useEffect(() => {
-        const handleScroll = () => {
-            setScrollPosition({
-                x: window.scrollX,
-                y: window.scrollY,
-            });
+const DEFAULT_CACHE_TIME = 5 * 60 * 1000;
+
+const queryCache = new Map<string, QueryEntry>();
+
+// The scope identifies the transport (base URL and fetch), so providers pointing at different backends don't share entries.
+const getQueryHash = (url: string, key: ReadonlyArray<unknown> = [], scope: string = ''): string =>
+    JSON.stringify([scope, url, ...key]);
+
+const getQueryEntry = <T>(url: string, key: ReadonlyArray<unknown> = [], scope: string = ''): QueryEntry<T> => {
+    const hash = getQueryHash(url, key, scope);
+    let entry = queryCache.get(hash);
+
+    if (!entry) {
+        entry = {
+            hash,
+            scope,
+            url,
+            key,
+            data: null,
+            error: null,
+            updatedAt: 0,
+            invalidated: false,
+            promise: null,
+            fetcher: null,
+            listeners: new Set(),
+            cacheTime: DEFAULT_CACHE_TIME,
+            gcTimeout: null,
         };
+        queryCache.set(hash, entry);
+    }
 
-        window.addEventListener('scroll', handleScroll);
-        return () => window.removeEventListener('scroll', handleScroll);
-    }, []);
+    return entry;
+};
 
-    return scrollPosition;
-}
+// Matches across every scope; without a key, every entry for the URL matches.
+const matchQueryEntries = (url: string, key?: ReadonlyArray<unknown>): QueryEntry[] => {
+    const hash = key ? getQueryHash(url, key) : null;
+    const matches: QueryEntry[] = [];
 
+    queryCache.forEach((entry) => {
+        if (entry.url === url && (!hash || getQueryHash(entry.url, entry.key) === hash)) matches.push(entry);
+    });
 
-export function useTimeout(callback: () => void, delay: number | null): void {
-    const savedCallback = useRef<() => void>();
+    return matches;
+};
 
-    useEffect(() => {
-        savedCallback.current = callback;
-    }, [callback]);
+const notifyQueryEntry = (entry: QueryEntry) => {
+    entry.listeners.forEach((listener) => listener());
+};
 
-    useEffect(() => {
-        if (delay === null) return;
+const isQueryStale = (entry: QueryEntry, staleTime: number): boolean =>
+    entry.invalidated || entry.updatedAt === 0 || Date.now() - entry.updatedAt > staleTime;
+
+// Concurrent callers share the in-flight promise, so N subscribers cause one request.
+const fetchQueryEntry = <T>(entry: QueryEntry<T>): Promise<T | null> => {
+    if (entry.promise) return entry.promise;
+    if (!entry.fetcher) return Promise.resolve(entry.data);
+
+    entry.promise = entry
+        .fetcher()
+        .then(
+            (data) => {
+                entry.data = data;
+                entry.error = null;
+                entry.updatedAt = Date.now();
+                entry.invalidated = false;
+                return data;
+            },
+            // A failure leaves updatedAt alone, so the entry stays stale and the next mount retries.
+            (error) => {
+                entry.error = error instanceof Error ? error.message : 'An error occurred';
+                return entry.data;
+            }
+        )
+        .then((data) => {
+            entry.promise = null;
+            notifyQueryEntry(entry);
+            return data;
+        });
 
-        const timer = setTimeout(() => savedCallback.current?.(), delay);
-        return () => clearTimeout(timer);
-    }, [delay]);
-}
+    notifyQueryEntry(entry);
+    return entry.promise;
+};
 
+const subscribeQueryEntry = (entry: QueryEntry, listener: () => void) => {
+    if (entry.gcTimeout) {
+        clearTimeout(entry.gcTimeout);
+        entry.gcTimeout = null;
+    }
+    entry.listeners.add(listener);
 
-export function useDarkMode(): [boolean, () => void] {
-    const [isDarkMode, setIsDarkMode] = useState<boolean>(() =>
-        window.matchMedia('(prefers-color-scheme: dark)').matches
-    );
+    return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size > 0) return;
 
-    const toggleDarkMode = () => {
-        setIsDarkMode((prevMode) => !prevMode);
-        document.body.classList.toggle('dark-mode', !isDarkMode);
+        entry.gcTimeout = setTimeout(() => {
+            if (entry.listeners.size === 0 && queryCache.get(entry.hash) === entry) queryCache.delete(entry.hash);
+        }, entry.cacheTime);
     };
+};
 
-    useEffect(() => {
-        const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
-        const handleChange = (e: MediaQueryListEvent) => setIsDarkMode(e.matches);
+const writeQueryEntry = <T>(entry: QueryEntry<T>, updater: T | ((previous: T | null) => T)) => {
+    entry.data = updater instanceof Function ? updater(entry.data) : updater;
+    entry.error = null;
+    entry.updatedAt = Date.now();
+    entry.invalidated = false;
+    notifyQueryEntry(entry);
+};
 
-        mediaQuery.addEventListener('change', handleChange);
-        return () => mediaQuery.removeEventListener('change', handleChange);
-    }, []);
+export const getQueryData = <T>(url: string, key: ReadonlyArray<unknown> = []): T | null => {
+    const entry = matchQueryEntries(url, key)[0];
+    return entry ? entry.data : null;
+};
 
-    return [isDarkMode, toggleDarkMode];
-}
+// Updates the entry in every provider scope that has one, or seeds the default scope when none exists yet.
+export const setQueryData = <T>(
+    url: string,
+    updater: T | ((previous: T | null) => T),
+    key: ReadonlyArray<unknown> = []
+): void => {
+    const entries = matchQueryEntries(url, key);
+    (entries.length > 0 ? entries : [getQueryEntry<T>(url, key)]).forEach((entry) => writeQueryEntry(entry, updater));
+};
 
-interface FormState<T> {
-    values: T;
-    errors: Partial<Record<keyof T, string>>;
-}
+// Drops every cached entry, e.g. between tests that run against a mock adapter.
+export const clearQueryCache = (): void => {
+    queryCache.forEach((entry) => {
+        if (entry.gcTimeout) clearTimeout(entry.gcTimeout);
+    });
+    queryCache.clear();
+};
+
+let transportIdCounter = 0;
+const transportIds = new WeakMap<object, number>();
+
+const getTransportId = (transport: object | undefined): number => {
+    if (!transport) return 0;
+    if (!transportIds.has(transport)) transportIds.set(transport, ++transportIdCounter);
+    return transportIds.get(transport)!;
+};
+
+let hasWarnedUnstableFetch = false;
+
+// Providers with different base URLs, headers or fetch functions never share cached responses. `fetch` is
+// compared by identity, so it has to be defined outside render or memoized; an inline one refetches every render.
+const useQueryScope = (): string => {
+    const { baseURL = '', headers, fetch: customFetch } = useHooksConfig();
+    const headersKey = JSON.stringify(headers ?? null);
+    const previousRef = useRef({ customFetch, baseURL, headersKey });
+
+    useEffect(() => {
+        const previous = previousRef.current;
+        previousRef.current = { customFetch, baseURL, headersKey };
+        if (
+            hasWarnedUnstableFetch ||
+            !previous.customFetch ||
+            previous.customFetch === customFetch ||
+            previous.baseURL !== baseURL ||
+            previous.headersKey !== headersKey
+        ) {
+            return;
+        }
+        hasWarnedUnstableFetch = true;
+        console.warn(
+            'HooksProvider received a new `fetch` function while its other settings stayed the same. ' +
+                'Cached queries are scoped by its identity, so define it outside render or wrap it in useCallback.'
+        );
+    }, [customFetch, baseURL, headersKey]);
+
+    return baseURL || headers || customFetch ? JSON.stringify([baseURL, headersKey, getTransportId(customFetch)]) : '';
+};
 
-export function useForm<T extends Record<string, any>>(initialValues: T) {
-    const [formState, setFormState] = useState<FormState<T>>({
-        values: initialValues,
-        errors: {},
+export const invalidateQueries = (url: string, key?: ReadonlyArray<unknown>): void => {
+    matchQueryEntries(url, key).forEach((entry) => {
+        entry.invalidated = true;
+        if (entry.listeners.size > 0) {
+            fetchQueryEntry(entry);
+        } else {
+            notifyQueryEntry(entry);
+        }
     });
+};
 
-    const handleChange = (name: keyof T, value: any) => {
-        setFormState((prev) => ({
-            ...prev,
-            values: { ...prev.values, [name]: value },
-        }));
-    };
+export const refetchQueries = (url: string, key?: ReadonlyArray<unknown>): Promise<void> =>
+    Promise.all(matchQueryEntries(url, key).map((entry) => fetchQueryEntry(entry))).then(() => undefined);
 
-    const validate = (validators: Partial<Record<keyof T, (value: any) => string | null>>) => {
-        const errors: Partial<Record<keyof T, string>> = {};
-        Object.entries(validators).forEach(([key, validator]) => {
-            const error = validator?.(formState.values[key as keyof T]);
-            if (error) errors[key as keyof T] = error;
-        });
-        setFormState((prev) => ({ ...prev, errors }));
-        return Object.keys(errors).length === 0;
-    };
+const useQuery = <T>(
+    url: string,
+    fetcher: () => Promise<T>,
+    options: QueryOptions = {},
+    scope: string = ''
+): QueryState<T> => {
+    const { key, staleTime = 0, cacheTime = DEFAULT_CACHE_TIME, enabled = true, refetchInterval = null, polling } = options;
+    const hash = getQueryHash(url, key, scope);
+    const [, setVersion] = useState(0);
+    const fetcherRef = useRef(fetcher);
+    fetcherRef.current = fetcher;
 
-    return {
-        values: formState.values,
-        errors: formState.errors,
-        handleChange,
-        validate,
-    };
-}
+    const entry = getQueryEntry<T>(url, key, scope);
 
+    useEffect(() => {
+        const entry = getQueryEntry<T>(url, key, scope);
+        entry.cacheTime = cacheTime;
+        entry.fetcher = () => fetcherRef.current();
 
-export function useArray<T>(initialArray: T[]) {
-    const [array, setArray] = useState(initialArray);
+        const unsubscribe = subscribeQueryEntry(entry, () => setVersion((version) => version + 1));
+        if (enabled && isQueryStale(entry, staleTime)) fetchQueryEntry(entry);
+
+        return unsubscribe;
+    }, [hash, enabled, staleTime, cacheTime]);
+
+    const refetch = useCallback(() => fetchQueryEntry(getQueryEntry<T>(url, key, scope)), [hash]);
+
+    usePolling(refetch, enabled ? refetchInterval : null, polling);
 
     return {
-        array,
-        set: setArray,
-        push: (item: T) => setArray((prev) => [...prev, item]),
-        removeByIndex: (index: number) => setArray((prev) => prev.filter((_, i) => i !== index)),
-        clear: () => setArray([]),
+        data: entry.data,
+        loading: enabled && entry.updatedAt === 0 && entry.error === null,
+        error: entry.error,
+        isFetching: entry.promise !== null,
+        isStale: isQueryStale(entry, staleTime),
+        updatedAt: entry.updatedAt,
+        refetch,
     };
+};
+
+const fetchJson = async <T>(url: string, init?: RequestInit, transport: Transport = defaultTransport): Promise<T> => {
+    const response = await transport(url, init);
+    if (!response.ok) throw new Error(`Error: ${response.statusText}`);
+    return response.json();
+};
+
+export function useFetch<T>(url: string, options: QueryOptions = {}): QueryState<T> {
+    const transport = useTransport();
+    return useQuery<T>(url, () => fetchJson<T>(url, undefined, transport), options, useQueryScope());
 }
 
+const prefetchQuery = <T>(
+    url: string,
+    fetcher: () => Promise<T>,
+    options: QueryOptions = {},
+    scope: string = ''
+): Promise<T | null> => {
+    const { key, staleTime = 0, cacheTime = DEFAULT_CACHE_TIME } = options;
+    const entry = getQueryEntry<T>(url, key, scope);
+    if (!entry.fetcher) entry.fetcher = fetcher;
+    if (entry.listeners.size === 0) {
+        entry.cacheTime = cacheTime;
+        // Subscribing and immediately unsubscribing schedules garbage collection for the unused entry.
+        subscribeQueryEntry(entry, () => undefined)();
+    }
 
-export function useStep<T>(steps: T[]) {
-    const [currentStepIndex, setCurrentStepIndex] = useState(0);
+    return isQueryStale(entry, staleTime) ? fetchQueryEntry(entry) : Promise.resolve(entry.data);
+};
 
-    const next = () => setCurrentStepIndex((i) => Math.min(i + 1, steps.length - 1));
-    const previous = () => setCurrentStepIndex((i) => Math.max(i - 1, 0));
-    const reset = () => setCurrentStepIndex(0);
+export interface InfiniteData<TPage, TParam> {
+    pages: TPage[];
+    pageParams: TParam[];
+}
 
-    return {
-        currentStep: steps[currentStepIndex],
-        currentStepIndex,
-        next,
-        previous,
-        reset,
-        isFirstStep: currentStepIndex === 0,
-        isLastStep: currentStepIndex === steps.length - 1,
-    };
+export interface InfiniteFetchOptions<TPage, TParam> extends QueryOptions {
+    initialPageParam: TParam;
+    getNextPageParam: (lastPage: TPage, allPages: TPage[], lastPageParam: TParam) => TParam | null | undefined;
+    sentinelRef?: RefObject<HTMLElement>;
+    rootMargin?: string;
 }
 
-export function useTimeoutFn(callback: () => void, delay: number | null) {
-    const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+export interface UseInfiniteFetchReturn<TPage, TParam> extends QueryState<InfiniteData<TPage, TParam>> {
+    fetchNextPage: () => Promise<void>;
+    hasNextPage: boolean;
+    isFetchingNextPage: boolean;
+}
 
-    const reset = () => {
-        if (timeoutRef.current) clearTimeout(timeoutRef.current);
-        if (delay !== null) timeoutRef.current = setTimeout(callback, delay);
-    };
+export function useInfiniteFetch<TPage, TParam = number>(
+    getUrl: (pageParam: TParam) => string,
+    options: InfiniteFetchOptions<TPage, TParam>
+): UseInfiniteFetchReturn<TPage, TParam> {
+    const { initialPageParam, getNextPageParam, sentinelRef, rootMargin = '0px', key = [], ...queryOptions } = options;
+    const url = getUrl(initialPageParam);
+    const queryKey = ['infinite', ...key];
+    const transport = useTransport();
+    const scope = useQueryScope();
+
+    // A refetch reloads as many pages as are currently loaded so invalidation doesn't collapse the list.
+    const query = useQuery<InfiniteData<TPage, TParam>>(
+        url,
+        async () => {
+            const loaded = getQueryEntry<InfiniteData<TPage, TParam>>(url, queryKey, scope).data;
+            const pageCount = loaded ? loaded.pages.length : 1;
+            const pages: TPage[] = [];
+            const pageParams: TParam[] = [];
+            let pageParam: TParam | null | undefined = initialPageParam;
+
+            while (pages.length < Math.max(1, pageCount) && pageParam !== null && pageParam !== undefined) {
+                const page: TPage = await fetchJson<TPage>(getUrl(pageParam), undefined, transport);
+                pages.push(page);
+                pageParams.push(pageParam);
+                pageParam = getNextPageParam(page, pages, pageParam);
+            }
 
-    const clear = () => {
-        if (timeoutRef.current) clearTimeout(timeoutRef.current);
-    };
+            return { pages, pageParams };
+        },
+        { ...queryOptions, key: queryKey },
+        scope
+    );
 
-    useEffect(() => {
-        reset();
-        return clear;
-    }, [callback, delay]);
+    const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+    const [nextPageError, setNextPageError] = useState<string | null>(null);
+    const fetchingNextPageRef = useRef(false);
 
-    return { reset, clear };
-}
+    const { data } = query;
+    const nextPageParam =
+        data && data.pages.length > 0
+            ? getNextPageParam(data.pages[data.pages.length - 1], data.pages, data.pageParams[data.pageParams.length - 1])
+            : undefined;
+    const hasNextPage = nextPageParam !== null && nextPageParam !== undefined;
 
+    const fetchNextPage = useCallback(async () => {
+        if (nextPageParam === null || nextPageParam === undefined || fetchingNextPageRef.current) return;
 
-export function useDebouncedCallback(callback: () => void, delay: number) {
-    const { reset, clear } = useTimeoutFn(callback, delay);
+        fetchingNextPageRef.current = true;
+        setIsFetchingNextPage(true);
 
-    const debouncedCallback = useCallback(() => {
-        clear();
-        reset();
-    }, [clear, reset]);
+        try {
+            const page = await fetchJson<TPage>(getUrl(nextPageParam), undefined, transport);
+            writeQueryEntry(getQueryEntry<InfiniteData<TPage, TParam>>(url, queryKey, scope), (previous) => ({
+                pages: [...(previous ? previous.pages : []), page],
+                pageParams: [...(previous ? previous.pageParams : []), nextPageParam],
+            }));
+            setNextPageError(null);
+        } catch (error) {
+            setNextPageError(error instanceof Error ? error.message : 'An error occurred');
+        } finally {
+            fetchingNextPageRef.current = false;
+            setIsFetchingNextPage(false);
+        }
+    }, [url, getQueryHash(url, queryKey, scope), nextPageParam]);
 
-    return debouncedCallback;
-}
+    const fallbackRef = useRef<HTMLElement>(null);
+    const isSentinelVisible = useIntersectionObserver(sentinelRef || fallbackRef, { rootMargin });
 
-export function useScrollLock(lock: boolean) {
     useEffect(() => {
-        if (lock) {
-            const originalOverflow = document.body.style.overflow;
-            document.body.style.overflow = 'hidden';
-            return () => {
-                document.body.style.overflow = originalOverflow;
-            };
+        if (sentinelRef && isSentinelVisible && hasNextPage && !isFetchingNextPage && !query.loading) {
+            fetchNextPage();
         }
-    }, [lock]);
+    }, [isSentinelVisible, hasNextPage, isFetchingNextPage, query.loading]);
+
+    return {
+        ...query,
+        error: query.error || nextPageError,
+        fetchNextPage,
+        hasNextPage,
+        isFetchingNextPage,
+    };
 }
 
-export function useResizeObserver<T extends HTMLElement>(ref: RefObject<T>): WindowSize | null {
-    const [size, setSize] = useState<WindowSize | null>(null);
+export interface PaginatedFetchOptions<T> extends QueryOptions {
+    initialPage?: number;
+    hasNextPage?: (data: T, page: number) => boolean;
+    sentinelRef?: RefObject<HTMLElement>;
+    rootMargin?: string;
+}
+
+export interface UsePaginatedFetchReturn<T> extends QueryState<T> {
+    page: number;
+    setPage: React.Dispatch<React.SetStateAction<number>>;
+    nextPage: () => void;
+    previousPage: () => void;
+    hasNextPage: boolean;
+    isPreviousData: boolean;
+}
+
+export function usePaginatedFetch<T>(
+    getUrl: (page: number) => string,
+    options: PaginatedFetchOptions<T> = {}
+): UsePaginatedFetchReturn<T> {
+    const { initialPage = 1, hasNextPage: getHasNextPage, sentinelRef, rootMargin = '0px', ...queryOptions } = options;
+    const [page, setPage] = useState(initialPage);
+    const query = useFetch<T>(getUrl(page), queryOptions);
+    const transport = useTransport();
+    const scope = useQueryScope();
+
+    // The last page stays on screen while the next one is loading.
+    const previousDataRef = useRef<T | null>(null);
+    if (query.data !== null) previousDataRef.current = query.data;
+
+    const isPreviousData = query.data === null && previousDataRef.current !== null;
+    const hasNextPage = query.data !== null && (getHasNextPage ? getHasNextPage(query.data, page) : true);
+
+    const nextPage = useCallback(() => {
+        if (hasNextPage) setPage((current) => current + 1);
+    }, [hasNextPage]);
 
+    const previousPage = useCallback(() => {
+        setPage((current) => Math.max(Math.min(initialPage, 1), current - 1));
+    }, [initialPage]);
+
+    const fallbackRef = useRef<HTMLElement>(null);
+    const isSentinelVisible = useIntersectionObserver(sentinelRef || fallbackRef, { rootMargin });
+
+    // With a sentinel, the next page is prefetched into the cache so navigating to it is instant.
     useEffect(() => {
-        const handleResize = (entries: ResizeObserverEntry[]) => {
-            const entry = entries[0];
-            if (entry) {
-                setSize({
-                    width: entry.contentRect.width,
-                    height: entry.contentRect.height,
-                });
-            }
-        };
+        if (!sentinelRef || !isSentinelVisible || !hasNextPage) return;
 
-        const observer = new ResizeObserver(handleResize);
-        if (ref.current) observer.observe(ref.current);
+        const nextUrl = getUrl(page + 1);
+        prefetchQuery<T>(nextUrl, () => fetchJson<T>(nextUrl, undefined, transport), queryOptions, scope);
+    }, [isSentinelVisible, hasNextPage, page]);
 
-        return () => {
-            if (ref.current) observer.unobserve(ref.current);
-        };
-    }, [ref]);
+    return {
+        ...query,
+        data: query.data ?? previousDataRef.current,
+        loading: query.loading && !isPreviousData,
+        page,
+        setPage,
+        nextPage,
+        previousPage,
+        hasNextPage,
+        isPreviousData,
+    };
+}
 
-    return size;
+type StorageArea = 'local' | 'session';
+
+export interface Serializer<T> {
+    serialize: (value: T) => string;
+    deserialize: (raw: string) => T;
 }
 
-interface MousePosition {
-    x: number;
-    y: number;
+export const jsonSerializer: Serializer<any> = {
+    serialize: (value) => JSON.stringify(value),
+    deserialize: (raw) => JSON.parse(raw),
+};
+
+type TaggedValue = { __type: 'Date' | 'Map' | 'Set' | 'BigInt'; value: any };
+
+// JSON.stringify calls Date#toJSON before the replacer sees the value, so the raw value is read from the holder.
+function richReplacer(this: any, key: string, value: unknown): unknown {
+    const raw = this[key];
+    if (raw instanceof Date) return { __type: 'Date', value: raw.toISOString() };
+    if (raw instanceof Map) return { __type: 'Map', value: Array.from(raw.entries()) };
+    if (raw instanceof Set) return { __type: 'Set', value: Array.from(raw.values()) };
+    if (typeof raw === 'bigint') return { __type: 'BigInt', value: raw.toString() };
+    return value;
 }
 
-export function useMousePosition(): MousePosition {
-    const [position, setPosition] = useState<MousePosition>({ x: 0, y: 0 });
+const richReviver = (_key: string, value: unknown): unknown => {
+    const tagged = value as TaggedValue | null;
+    if (!tagged || typeof tagged !== 'object' || !('__type' in tagged)) return value;
+
+    switch (tagged.__type) {
+        case 'Date':
+            return new Date(tagged.value);
+        case 'Map':
+            return new Map(tagged.value);
+        case 'Set':
+            return new Set(tagged.value);
+        case 'BigInt':
+            return BigInt(tagged.value);
+        default:
+            return value;
+    }
+};
 
-    useEffect(() => {
-        const handleMouseMove = (event: MouseEvent) => {
-            setPosition({ x: event.clientX, y: event.clientY });
-        };
+export const richJsonSerializer: Serializer<any> = {
+    serialize: (value) => JSON.stringify(value, richReplacer),
+    deserialize: (raw) => JSON.parse(raw, richReviver),
+};
 
-        document.addEventListener('mousemove', handleMouseMove);
-        return () => document.removeEventListener('mousemove', handleMouseMove);
-    }, []);
+export type Migration = (oldValue: any, fromVersion: number) => unknown;
+
+export interface StorageOptions<T> {
+    serializer?: Serializer<T>;
+    sync?: boolean;
+    version?: number;
+    migrations?: Record<number, Migration>;
+    validate?: (value: unknown) => boolean;
+    onMigrationError?: (error: unknown, storedValue: unknown) => void;
+    ttl?: number;
+    expiresAt?: number | Date;
+}
 
-    return position;
+interface StorageEnvelope {
+    __envelope: 1;
+    version?: number;
+    expiresAt?: number;
+    value: unknown;
 }
 
-type ScrollDirection = 'up' | 'down';
+export interface StorageExpiry {
+    isExpired: boolean;
+    expiresAt: number | null;
+    expiresIn: number | null;
+}
 
-export function useScrollDirection(): ScrollDirection {
-    const [scrollDirection, setScrollDirection] = useState<ScrollDirection>('up');
-    const [lastScrollY, setLastScrollY] = useState(0);
+const MAX_TIMEOUT = 2147483647;
 
-    useEffect(() => {
+const getExpiresAt = ({ ttl, expiresAt }: Pick<StorageOptions<unknown>, 'ttl' | 'expiresAt'>): number | null => {
+    if (ttl !== undefined) return Date.now() + ttl;
+    if (expiresAt instanceof Date) return expiresAt.getTime();
+    return expiresAt ?? null;
+};
+
+const isStorageEnvelope = (value: unknown): value is StorageEnvelope =>
+    !!value && typeof value === 'object' && (value as StorageEnvelope).__envelope === 1 && 'value' in value;
+
+// Runs every migration from the stored version up to the target version; a missing step leaves the value as is.
+const migrateStoredValue = (
+    value: unknown,
+    fromVersion: number,
+    toVersion: number,
+    migrations: Record<number, Migration> = {}
+): unknown => {
+    let migrated = value;
+    for (let version = fromVersion; version < toVersion; version++) {
+        const migrate = migrations[version];
+        if (migrate) migrated = migrate(migrated, version);
+    }
+    return migrated;
+};
+
+export type StorageStateReturn<T> = [T, React.Dispatch<React.SetStateAction<T>>, () => void, StorageExpiry];
+
+const getStorage = (area: StorageArea): Storage | null => {
+    if (!isReady()) return null;
+    try {
+        return area === 'local' ? window.localStorage : window.sessionStorage;
+    } catch {
+        return null;
+    }
+};
+
+const storageSubscribers = new Map<string, Set<() => void>>();
+
+const notifyStorageSubscribers = (area: StorageArea, key: string) => {
+    storageSubscribers.get(`${area}:${key}`)?.forEach((listener) => listener());
+};
+
+export const sweepExpiredStorage = (
+    prefix: string = '',
+    area: StorageArea = 'local',
+    serializer: Serializer<any> = jsonSerializer
+): string[] => {
+    const storage = getStorage(area);
+    if (!storage) return [];
+
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null && key.indexOf(prefix) === 0) keys.push(key);
+    }
+
+    const now = Date.now();
+    return keys.filter((key) => {
+        try {
+            const decoded = serializer.deserialize(storage.getItem(key) as string);
+            if (!isStorageEnvelope(decoded) || decoded.expiresAt === undefined || decoded.expiresAt > now) return false;
+
+            storage.removeItem(key);
+            notifyStorageSubscribers(area, key);
+            return true;
+        } catch {
+            return false;
+        }
+    });
+};
+
+interface DecodedStorageValue<T> {
+    value: T;
+    raw: string | null;
+    expiresAt: number | null;
+    isExpired: boolean;
+}
+
+const encodeStorageValue = <T>(value: T, expiresAt: number | null, options: StorageOptions<T>): string => {
+    const { serializer = jsonSerializer, version } = options;
+    if (version === undefined && expiresAt === null) return serializer.serialize(value);
+
+    const envelope: StorageEnvelope = { __envelope: 1, version, value };
+    if (expiresAt !== null) envelope.expiresAt = expiresAt;
+    return serializer.serialize(envelope as unknown as T);
+};
+
+// Unwraps, expires, migrates and validates a raw stored string. `raw` in the result is what storage holds afterwards.
+const decodeStorageValue = <T>(
+    area: StorageArea,
+    key: string,
+    raw: string | null,
+    initialValue: T,
+    options: StorageOptions<T>
+): DecodedStorageValue<T> => {
+    const fallback = { value: initialValue, raw, expiresAt: null, isExpired: false };
+    if (raw === null) return fallback;
+
+    const { serializer = jsonSerializer, version, migrations, validate, onMigrationError } = options;
+    let decoded: unknown;
+    try {
+        decoded = serializer.deserialize(raw);
+    } catch (error) {
+        console.warn(`Error reading ${area}Storage key "${key}":`, error);
+        return fallback;
+    }
+
+    const envelope = isStorageEnvelope(decoded) ? decoded : null;
+    let value = envelope ? envelope.value : decoded;
+    const storedVersion = envelope?.version ?? 0;
+    const storedExpiresAt = envelope?.expiresAt ?? null;
+
+    // Expired entries read as missing and are cleaned up on the spot.
+    if (storedExpiresAt !== null && storedExpiresAt <= Date.now()) {
+        try {
+            getStorage(area)?.removeItem(key);
+        } catch {
+            // Leaving the stale entry behind is harmless; it reads as expired next time too.
+        }
+        return { value: initialValue, raw: null, expiresAt: null, isExpired: true };
+    }
+
+    if (version !== undefined && storedVersion !== version) {
+        try {
+            if (storedVersion > version) {
+                throw new Error(`Stored version ${storedVersion} is newer than ${version}`);
+            }
+            value = migrateStoredValue(value, storedVersion, version, migrations);
+        } catch (error) {
+            onMigrationError?.(error, decoded);
+            return fallback;
+        }
+    }
+
+    if (validate && !validate(value)) return fallback;
+
+    // Migrated data is written back once so returning users don't pay for the migration on every read.
+    let currentRaw = raw;
+    if (version !== undefined && storedVersion !== version) {
+        try {
+            const migratedRaw = encodeStorageValue(value as T, storedExpiresAt, options);
+            getStorage(area)?.setItem(key, migratedRaw);
+            currentRaw = migratedRaw;
+        } catch (error) {
+            console.warn(`Error setting ${area}Storage key "${key}":`, error);
+        }
+    }
+
+    return { value: value as T, raw: currentRaw, expiresAt: storedExpiresAt, isExpired: false };
+};
+
+// Shared engine behind useLocalStorage, useSessionStorage and usePersistedState. Instances using the same key
+// stay in sync within the tab through storageSubscribers and across tabs through the `storage` event.
+function useStorageState<T>(
+    area: StorageArea,
+    key: string,
+    initialValue: T,
+    options: StorageOptions<T> = {}
+): StorageStateReturn<T> {
+    const { sync = true } = options;
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const initialValueRef = useRef(initialValue);
+    initialValueRef.current = initialValue;
+    const lastRawRef = useRef<string | null>(null);
+    const expiryRef = useRef<{ expiresAt: number | null; isExpired: boolean }>({ expiresAt: null, isExpired: false });
+
+    const readRaw = useCallback((): string | null => {
+        try {
+            return getStorage(area)?.getItem(key) ?? null;
+        } catch {
+            return null;
+        }
+    }, [area, key]);
+
+    const encode = useCallback(
+        (value: T, expiresAt: number | null): string => encodeStorageValue(value, expiresAt, optionsRef.current),
+        []
+    );
+
+    const parse = useCallback(
+        (raw: string | null): T => {
+            const decoded = decodeStorageValue(area, key, raw, initialValueRef.current, optionsRef.current);
+            lastRawRef.current = decoded.raw;
+            expiryRef.current = { expiresAt: decoded.expiresAt, isExpired: decoded.isExpired };
+            return decoded.value;
+        },
+        [area, key]
+    );
+
+    const [storedValue, setStoredValue] = useState<T>(() => {
+        lastRawRef.current = readRaw();
+        return parse(lastRawRef.current);
+    });
+    const [expiry, setExpiry] = useState(() => expiryRef.current);
+    const valueRef = useRef(storedValue);
+    valueRef.current = storedValue;
+
+    const syncFromStorage = useCallback(() => {
+        const raw = readRaw();
+        if (raw === lastRawRef.current) return;
+
+        lastRawRef.current = raw;
+        valueRef.current = parse(raw);
+        setStoredValue(valueRef.current);
+        setExpiry(expiryRef.current);
+    }, [readRaw, parse]);
+
+    useEffect(() => {
+        const { expiresAt } = expiry;
+        if (expiresAt === null || expiresAt - Date.now() > MAX_TIMEOUT) return;
+
+        const timer = setTimeout(() => {
+            // Forces a re-read, which notices the expiry and falls back to the initial value.
+            lastRawRef.current = null;
+            syncFromStorage();
+        }, Math.max(0, expiresAt - Date.now()));
+
+        return () => clearTimeout(timer);
+    }, [expiry, syncFromStorage]);
+
+    useEffect(() => {
+        syncFromStorage();
+
+        const subscriberKey = `${area}:${key}`;
+        if (!storageSubscribers.has(subscriberKey)) storageSubscribers.set(subscriberKey, new Set());
+        const subscribers = storageSubscribers.get(subscriberKey)!;
+        subscribers.add(syncFromStorage);
+
+        const handleStorage = (event: StorageEvent) => {
+            if (event.storageArea === getStorage(area) && (event.key === key || event.key === null)) {
+                syncFromStorage();
+            }
+        };
+        if (sync && isReady()) window.addEventListener('storage', handleStorage);
+
+        return () => {
+            subscribers.delete(syncFromStorage);
+            if (sync && isReady()) window.removeEventListener('storage', handleStorage);
+        };
+    }, [area, key, sync, syncFromStorage]);
+
+    const setValue = useCallback(
+        (value: React.SetStateAction<T>) => {
+            const next = value instanceof Function ? value(valueRef.current) : value;
+            valueRef.current = next;
+            setStoredValue(next);
+
+            const expiresAt = getExpiresAt(optionsRef.current);
+            expiryRef.current = { expiresAt, isExpired: false };
+            setExpiry(expiryRef.current);
+
+            const storage = getStorage(area);
+            if (!storage) return;
+            try {
+                const raw = encode(next, expiresAt);
+                lastRawRef.current = raw;
+                storage.setItem(key, raw);
+                notifyStorageSubscribers(area, key);
+            } catch (error) {
+                console.warn(`Error setting ${area}Storage key "${key}":`, error);
+            }
+        },
+        [area, key, encode]
+    );
+
+    const remove = useCallback(() => {
+        lastRawRef.current = null;
+        valueRef.current = initialValueRef.current;
+        setStoredValue(initialValueRef.current);
+        expiryRef.current = { expiresAt: null, isExpired: false };
+        setExpiry(expiryRef.current);
+
+        try {
+            getStorage(area)?.removeItem(key);
+            notifyStorageSubscribers(area, key);
+        } catch (error) {
+            console.warn(`Error removing ${area}Storage key "${key}":`, error);
+        }
+    }, [area, key]);
+
+    return [
+        storedValue,
+        setValue,
+        remove,
+        {
+            isExpired: expiry.isExpired,
+            expiresAt: expiry.expiresAt,
+            expiresIn: expiry.expiresAt === null ? null : Math.max(0, expiry.expiresAt - Date.now()),
+        },
+    ];
+}
+
+export function useLocalStorage<T>(key: string, initialValue: T, options?: StorageOptions<T>): StorageStateReturn<T> {
+    return useStorageState('local', key, initialValue, options);
+}
+
+
+interface TabChannelMessage {
+    senderId: string;
+    message: any;
+}
+
+interface TabChannel {
+    post: (message: unknown, senderId: string) => void;
+    subscribe: (listener: (message: any, senderId: string) => void) => () => void;
+}
+
+const createTabId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// BroadcastChannel when available, otherwise a write-then-remove on localStorage, which other tabs see as a
+// `storage` event. Messages are also dispatched locally so hooks in the same tab stay in step.
+const createTabChannel = (name: string): TabChannel & { close: () => void } => {
+    const listeners = new Set<(message: any, senderId: string) => void>();
+    const deliver = ({ senderId, message }: TabChannelMessage) => listeners.forEach((listener) => listener(message, senderId));
+    const storageKey = `__tab_channel__:${name}`;
+    let close = () => undefined as void;
+    let postRemote: (data: TabChannelMessage) => void = () => undefined;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+        const channel = new BroadcastChannel(name);
+        channel.onmessage = (event: MessageEvent<TabChannelMessage>) => deliver(event.data);
+        postRemote = (data) => channel.postMessage(data);
+        close = () => channel.close();
+    } else if (isReady()) {
+        const handleStorage = (event: StorageEvent) => {
+            if (event.key !== storageKey || !event.newValue) return;
+            try {
+                deliver(JSON.parse(event.newValue));
+            } catch {
+                // Ignore payloads written by something other than this channel.
+            }
+        };
+        window.addEventListener('storage', handleStorage);
+        postRemote = (data) => {
+            try {
+                localStorage.setItem(storageKey, JSON.stringify({ ...data, nonce: Math.random() }));
+                localStorage.removeItem(storageKey);
+            } catch (error) {
+                console.warn(`Error broadcasting on channel "${name}":`, error);
+            }
+        };
+        close = () => window.removeEventListener('storage', handleStorage);
+    }
+
+    return {
+        post: (message, senderId) => {
+            const data = { senderId, message };
+            postRemote(data);
+            deliver(data);
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        close,
+    };
+};
+
+const tabChannels = new Map<string, { channel: ReturnType<typeof createTabChannel>; refs: number }>();
+
+const acquireTabChannel = (name: string): TabChannel => {
+    let shared = tabChannels.get(name);
+    if (!shared) {
+        shared = { channel: createTabChannel(name), refs: 0 };
+        tabChannels.set(name, shared);
+    }
+    shared.refs++;
+    return shared.channel;
+};
+
+const releaseTabChannel = (name: string) => {
+    const shared = tabChannels.get(name);
+    if (!shared) return;
+
+    shared.refs--;
+    if (shared.refs <= 0) {
+        tabChannels.delete(name);
+        shared.channel.close();
+    }
+};
+
+type BroadcastStateMessage<T> = { type: 'state'; value: T } | { type: 'sync-request' };
+
+export function useBroadcastState<T>(
+    channelName: string,
+    initialValue: T
+): [T, React.Dispatch<React.SetStateAction<T>>, () => void] {
+    const [state, setState] = useState<T>(initialValue);
+    const stateRef = useRef(state);
+    stateRef.current = state;
+    const initialValueRef = useRef(initialValue);
+    initialValueRef.current = initialValue;
+    const instanceIdRef = useRef(createTabId());
+    const channelRef = useRef<TabChannel | null>(null);
+    const hasLocalValueRef = useRef(false);
+    const name = `state:${channelName}`;
+
+    useEffect(() => {
+        const channel = acquireTabChannel(name);
+        const instanceId = instanceIdRef.current;
+        channelRef.current = channel;
+
+        const unsubscribe = channel.subscribe((message: BroadcastStateMessage<T>, senderId) => {
+            if (senderId === instanceId) return;
+
+            if (message.type === 'sync-request') {
+                if (hasLocalValueRef.current) channel.post({ type: 'state', value: stateRef.current }, instanceId);
+            } else if (message.type === 'state') {
+                hasLocalValueRef.current = true;
+                stateRef.current = message.value;
+                setState(message.value);
+            }
+        });
+
+        // A freshly opened tab asks its peers for the current value instead of starting from initialValue.
+        channel.post({ type: 'sync-request' }, instanceId);
+
+        return () => {
+            unsubscribe();
+            channelRef.current = null;
+            releaseTabChannel(name);
+        };
+    }, [name]);
+
+    const setBroadcastState = useCallback((value: React.SetStateAction<T>) => {
+        const next = value instanceof Function ? value(stateRef.current) : value;
+        stateRef.current = next;
+        hasLocalValueRef.current = true;
+        setState(next);
+        channelRef.current?.post({ type: 'state', value: next }, instanceIdRef.current);
+    }, []);
+
+    const reset = useCallback(() => setBroadcastState(initialValueRef.current), [setBroadcastState]);
+
+    return [state, setBroadcastState, reset];
+}
+
+export interface LeaderElectionOptions {
+    heartbeatInterval?: number;
+    timeout?: number;
+}
+
+export interface UseLeaderElectionReturn {
+    isLeader: boolean;
+    leaderId: string | null;
+    tabId: string;
+}
+
+type LeaderMessage = { type: 'heartbeat' | 'claim' | 'resign'; id: string };
+
+interface LeaderElection {
+    leaderId: string | null;
+    listeners: Set<(leaderId: string | null) => void>;
+    stop: () => void;
+}
+
+// One id per tab: every component in the tab shares it, so they never compete with each other.
+const TAB_ID = createTabId();
+
+const leaderElections = new Map<string, LeaderElection>();
+
+// Bully-style election: live leaders send heartbeats, and when they stop the lowest tab id that claims wins.
+const startLeaderElection = (name: string, heartbeatInterval: number, timeout: number): LeaderElection => {
+    const channel = acquireTabChannel(name);
+    const claimWindow = Math.min(300, heartbeatInterval);
+    let lastSeen = 0;
+    let claiming = false;
+    let claimTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const post = (type: LeaderMessage['type']) => channel.post({ type, id: TAB_ID }, TAB_ID);
+
+    const setLeader = (id: string | null) => {
+        election.leaderId = id;
+        lastSeen = Date.now();
+        election.listeners.forEach((listener) => listener(id));
+    };
+
+    const cancelClaim = () => {
+        claiming = false;
+        clearTimeout(claimTimer);
+    };
+
+    const claim = () => {
+        if (claiming) return;
+        claiming = true;
+        post('claim');
+        claimTimer = setTimeout(() => {
+            if (!claiming) return;
+            claiming = false;
+            setLeader(TAB_ID);
+            post('heartbeat');
+        }, claimWindow);
+    };
+
+    const unsubscribe = channel.subscribe((message: LeaderMessage, senderId) => {
+        if (senderId === TAB_ID) return;
+
+        if (message.type === 'heartbeat') {
+            if (election.leaderId === TAB_ID && message.id > TAB_ID) {
+                post('heartbeat');
+                return;
+            }
+            cancelClaim();
+            setLeader(message.id);
+        } else if (message.type === 'claim') {
+            if (election.leaderId === TAB_ID) {
+                post('heartbeat');
+            } else if (claiming && message.id < TAB_ID) {
+                cancelClaim();
+            } else if (!claiming && message.id > TAB_ID && Date.now() - lastSeen > timeout) {
+                claim();
+            }
+        } else if (message.type === 'resign' && message.id === election.leaderId) {
+            setLeader(null);
+            claim();
+        }
+    });
+
+    const intervalId = setInterval(() => {
+        if (election.leaderId === TAB_ID) {
+            post('heartbeat');
+        } else if (!claiming && Date.now() - lastSeen > timeout) {
+            claim();
+        }
+    }, heartbeatInterval);
+
+    const election: LeaderElection = {
+        leaderId: null,
+        listeners: new Set(),
+        stop: () => {
+            clearInterval(intervalId);
+            cancelClaim();
+            if (election.leaderId === TAB_ID) post('resign');
+            unsubscribe();
+            releaseTabChannel(name);
+        },
+    };
+
+    claim();
+    return election;
+};
+
+// Components using the same channel share one election; the first one's timing options apply.
+export function useLeaderElection(channelName: string = 'default', options: LeaderElectionOptions = {}): UseLeaderElectionReturn {
+    const { heartbeatInterval = 1000, timeout = heartbeatInterval * 3 } = options;
+    const name = `leader:${channelName}`;
+    const [leaderId, setLeaderId] = useState<string | null>(() => leaderElections.get(name)?.leaderId ?? null);
+
+    useEffect(() => {
+        let election = leaderElections.get(name);
+        if (!election) {
+            election = startLeaderElection(name, heartbeatInterval, timeout);
+            leaderElections.set(name, election);
+        }
+
+        const current = election;
+        current.listeners.add(setLeaderId);
+        setLeaderId(current.leaderId);
+
+        return () => {
+            current.listeners.delete(setLeaderId);
+            if (current.listeners.size > 0) return;
+            leaderElections.delete(name);
+            current.stop();
+        };
+    }, [name, heartbeatInterval, timeout]);
+
+    return { isLeader: leaderId !== null && leaderId === TAB_ID, leaderId, tabId: TAB_ID };
+}
+
+
+export function useToggle(initialValue: boolean = false): [boolean, () => void] {
+    const [value, setValue] = useState(initialValue);
+
+    const toggle = () => setValue((prev) => !prev);
+
+    return [value, toggle];
+}
+
+export function useDebounce<T>(value: T, delay: number): T {
+    const [debouncedValue, setDebouncedValue] = useState(value);
+
+    useEffect(() => {
+        const handler = setTimeout(() => setDebouncedValue(value), delay);
+        return () => clearTimeout(handler);
+    }, [value, delay]);
+
+    return debouncedValue;
+}
+
+export function useThrottle<T>(value: T, limit: number): T {
+    const [throttledValue, setThrottledValue] = useState(value);
+
+    useEffect(() => {
+        const handler = setTimeout(() => setThrottledValue(value), limit);
+        return () => clearTimeout(handler);
+    }, [value, limit]);
+
+    return throttledValue;
+}
+
+export function usePrevious<T>(value: T): T | undefined {
+    const ref = useRef<T>();
+
+    useEffect(() => {
+        ref.current = value;
+    });
+
+    return ref.current;
+}
+
+export function useMediaQuery(query: string): boolean {
+    const [matches, setMatches] = useState(false);
+
+    useEffect(() => {
+        const mediaQueryList = window.matchMedia(query);
+        const updateMatch = () => setMatches(mediaQueryList.matches);
+
+        updateMatch();
+        mediaQueryList.addEventListener('change', updateMatch);
+
+        return () => mediaQueryList.removeEventListener('change', updateMatch);
+    }, [query]);
+
+    return matches;
+}
+
+export function useClipboard(): [boolean, (text: string) => Promise<void>] {
+    const [copied, setCopied] = useState(false);
+
+    const copyToClipboard = async (text: string) => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000); // Reset after 2 seconds
+        } catch (error) {
+            console.error('Failed to copy text to clipboard', error);
+        }
+    };
+
+    return [copied, copyToClipboard];
+}
+
+
+export function useInterval(callback: () => void, delay: number | null): void {
+    const savedCallback = useRef<() => void>();
+
+    useEffect(() => {
+        savedCallback.current = callback;
+    }, [callback]);
+
+    useEffect(() => {
+        if (delay === null) return;
+
+        const tick = () => savedCallback.current?.();
+        const id = setInterval(tick, delay);
+        return () => clearInterval(id);
+    }, [delay]);
+}
+
+
+interface WindowSize {
+    width: number;
+    height: number;
+}
+
+export function useWindowSize(): WindowSize {
+    const [windowSize, setWindowSize] = useState<WindowSize>({
+        width: window.innerWidth,
+        height: window.innerHeight,
+    });
+
+    useEffect(() => {
+        const handleResize = () => {
+            setWindowSize({
+                width: window.innerWidth,
+                height: window.innerHeight,
+            });
+        };
+
+        window.addEventListener('resize', handleResize);
+        return () => window.removeEventListener('resize', handleResize);
+    }, []);
+
+    return windowSize;
+}
+
+export function useKeyPress(targetKey: string): boolean {
+    const [isKeyPressed, setIsKeyPressed] = useState(false);
+
+    const handleKeyDown = ({ key }: KeyboardEvent) => {
+        if (key === targetKey) setIsKeyPressed(true);
+    };
+
+    const handleKeyUp = ({ key }: KeyboardEvent) => {
+        if (key === targetKey) setIsKeyPressed(false);
+    };
+
+    useEffect(() => {
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+        };
+    }, [targetKey]);
+
+    return isKeyPressed;
+}
+
+export function useOnlineStatus(): boolean {
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    return isOnline;
+}
+
+interface ScrollPosition {
+    x: number;
+    y: number;
+}
+
+export function useScrollPosition(): ScrollPosition {
+    const [scrollPosition, setScrollPosition] = useState<ScrollPosition>({
+        x: window.scrollX,
+        y: window.scrollY,
+    });
+
+    useEffect(() => {
+        const handleScroll = () => {
+            setScrollPosition({
+                x: window.scrollX,
+                y: window.scrollY,
+            });
+        };
+
+        window.addEventListener('scroll', handleScroll);
+        return () => window.removeEventListener('scroll', handleScroll);
+    }, []);
+
+    return scrollPosition;
+}
+
+
+export function useTimeout(callback: () => void, delay: number | null): void {
+    const savedCallback = useRef<() => void>();
+
+    useEffect(() => {
+        savedCallback.current = callback;
+    }, [callback]);
+
+    useEffect(() => {
+        if (delay === null) return;
+
+        const timer = setTimeout(() => savedCallback.current?.(), delay);
+        return () => clearTimeout(timer);
+    }, [delay]);
+}
+
+
+export function useDarkMode(): [boolean, () => void] {
+    const [isDarkMode, setIsDarkMode] = useState<boolean>(() =>
+        window.matchMedia('(prefers-color-scheme: dark)').matches
+    );
+
+    const toggleDarkMode = () => {
+        setIsDarkMode((prevMode) => !prevMode);
+        document.body.classList.toggle('dark-mode', !isDarkMode);
+    };
+
+    useEffect(() => {
+        const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
+        const handleChange = (e: MediaQueryListEvent) => setIsDarkMode(e.matches);
+
+        mediaQuery.addEventListener('change', handleChange);
+        return () => mediaQuery.removeEventListener('change', handleChange);
+    }, []);
+
+    return [isDarkMode, toggleDarkMode];
+}
+
+type FieldPathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | Blob;
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+type FieldPathImpl<K extends string | number, V> =
+    IsAny<V> extends true
+        ? `${K}` | `${K}.${string}`
+        : V extends FieldPathLeaf
+          ? `${K}`
+          : `${K}` | `${K}.${FieldPath<V>}`;
+
+// Dotted paths into nested objects and arrays, e.g. `address.city` or `items.3.price`.
+export type FieldPath<T> =
+    T extends ReadonlyArray<infer V>
+        ? FieldPathImpl<number, V>
+        : { [K in keyof T & (string | number)]-?: FieldPathImpl<K, T[K]> }[keyof T & (string | number)];
+
+export type FieldPathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T
+        ? FieldPathValue<T[K], Rest>
+        : T extends ReadonlyArray<infer V>
+          ? FieldPathValue<V, Rest>
+          : any
+    : P extends keyof T
+      ? T[P]
+      : T extends ReadonlyArray<infer V>
+        ? V
+        : any;
+
+export type FormErrors<T> = Partial<Record<FieldPath<T>, string>>;
+
+export type FormFlags<T> = Partial<Record<FieldPath<T>, boolean>>;
+
+export type FieldValidators<T> = Partial<{ [P in FieldPath<T>]: (value: FieldPathValue<T, P>, values: T) => string | null }>;
+
+export type AsyncFieldValidators<T> = Partial<{
+    [P in FieldPath<T>]: (value: FieldPathValue<T, P>, values: T, signal: AbortSignal) => Promise<string | null>;
+}>;
+
+export interface StandardSchemaIssue {
+    message: string;
+    path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+export type StandardSchemaResult<T> = { value: T; issues?: undefined } | { issues: ReadonlyArray<StandardSchemaIssue> };
+
+// The `~standard` interface implemented by Zod, Valibot, ArkType and others; any object with this shape works as an adapter.
+export interface StandardSchema<T = unknown> {
+    readonly '~standard': {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (value: unknown) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+    };
+}
+
+export type ValidationMode = 'onChange' | 'onBlur' | 'onSubmit';
+
+export interface UseFormOptions<T> {
+    mode?: ValidationMode;
+    validators?: FieldValidators<T>;
+    schema?: StandardSchema<T>;
+    asyncValidators?: AsyncFieldValidators<T>;
+    asyncDebounce?: number;
+}
+
+type ErrorMap = Record<string, string>;
+
+type FlagMap = Record<string, boolean>;
+
+type PathValidator = (value: unknown, values: unknown, signal?: AbortSignal) => any;
+
+interface FormState<T> {
+    values: T;
+    errors: ErrorMap;
+    formError: string | null;
+    touched: FlagMap;
+    isValidating: FlagMap;
+    isSubmitting: boolean;
+    submitCount: number;
+}
+
+interface AsyncValidationRun {
+    version: number;
+    timer?: ReturnType<typeof setTimeout>;
+    controller?: AbortController;
+}
+
+export interface RegisteredField<V> {
+    name: string;
+    value: V;
+    onChange: (eventOrValue: V | { target: { value?: unknown; checked?: boolean; type?: string } }) => void;
+    onBlur: () => void;
+}
+
+const createFormState = <T>(values: T): FormState<T> => ({
+    values,
+    errors: {},
+    formError: null,
+    touched: {},
+    isValidating: {},
+    isSubmitting: false,
+    submitCount: 0,
+});
+
+const getEventValue = (eventOrValue: unknown): unknown => {
+    if (eventOrValue && typeof eventOrValue === 'object' && 'target' in eventOrValue) {
+        const target = (eventOrValue as { target: { value?: unknown; checked?: boolean; type?: string } }).target;
+        return target.type === 'checkbox' ? target.checked : target.value;
+    }
+    return eventOrValue;
+};
+
+const splitPath = (path: string): string[] => (path === '' ? [] : path.split('.'));
+
+const joinPath = (prefix: string, segment: string | number): string => (prefix ? `${prefix}.${segment}` : String(segment));
+
+const getPath = (source: unknown, path: string): any =>
+    splitPath(path).reduce<any>((value, segment) => (value == null ? undefined : value[segment]), source);
+
+const setPath = <S>(source: S, path: string, value: unknown): S => {
+    const [segment, ...rest] = splitPath(path);
+    if (segment === undefined) return value as S;
+
+    const current = source as any;
+    const child = setPath(current?.[segment], rest.join('.'), value);
+    if (Array.isArray(current) || (current == null && /^\d+$/.test(segment))) {
+        const next: unknown[] = current ? current.slice() : [];
+        next[Number(segment)] = child;
+        return next as S;
+    }
+    return { ...current, [segment]: child };
+};
+
+const isPathContainer = (value: unknown): value is Record<string, unknown> =>
+    Array.isArray(value) || (!!value && Object.getPrototypeOf(value) === Object.prototype);
+
+const collectLeafPaths = (value: unknown, prefix: string, paths: string[]): string[] => {
+    if (isPathContainer(value) && Object.keys(value).length > 0) {
+        Object.keys(value).forEach((key) => collectLeafPaths(value[key], joinPath(prefix, key), paths));
+    } else if (prefix) {
+        paths.push(prefix);
+    }
+    return paths;
+};
+
+const runValidators = (validators: Record<string, PathValidator | undefined>, values: unknown): ErrorMap => {
+    const errors: ErrorMap = {};
+    Object.keys(validators).forEach((path) => {
+        const error = validators[path]?.(getPath(values, path), values);
+        if (error) errors[path] = error;
+    });
+    return errors;
+};
+
+const getIssuePath = (issue: StandardSchemaIssue): string | undefined => {
+    if (!issue.path?.length) return undefined;
+    return issue.path.map((segment) => String(typeof segment === 'object' ? segment.key : segment)).join('.');
+};
+
+const runSchema = async <T>(
+    schema: StandardSchema<T> | undefined,
+    values: T
+): Promise<{ errors: ErrorMap; formError: string | null }> => {
+    const errors: ErrorMap = {};
+    let formError: string | null = null;
+    if (!schema) return { errors, formError };
+
+    const result = await schema['~standard'].validate(values);
+    result.issues?.forEach((issue) => {
+        const path = getIssuePath(issue);
+        if (path === undefined) formError = formError ?? issue.message;
+        else if (!errors[path]) errors[path] = issue.message;
+    });
+    return { errors, formError };
+};
+
+const withEntry = <V>(map: Record<string, V>, path: string, value: V | undefined): Record<string, V> => {
+    const next = { ...map };
+    if (value) next[path] = value;
+    else delete next[path];
+    return next;
+};
+
+// Rewrites `name.<index>...` keys after a field array operation; rows mapped to undefined are dropped.
+const remapArrayKeys = <V>(map: Record<string, V>, name: string, mapIndex: (index: number) => number | undefined) => {
+    const prefix = `${name}.`;
+    const next: Record<string, V> = {};
+    Object.keys(map).forEach((key) => {
+        if (!key.startsWith(prefix)) {
+            next[key] = map[key];
+            return;
+        }
+        const [index, ...rest] = splitPath(key.slice(prefix.length));
+        const mapped = mapIndex(Number(index));
+        if (mapped !== undefined) next[[name, mapped].concat(rest).join('.')] = map[key];
+    });
+    return next;
+};
+
+export interface FieldArrayControl<T> {
+    values: T;
+    updateFieldArray: (
+        name: FieldPath<T>,
+        update: (rows: unknown[]) => unknown[],
+        mapIndex: (index: number) => number | undefined
+    ) => void;
+}
+
+export function useForm<T extends Record<string, any>>(initialValues: T, options: UseFormOptions<T> = {}) {
+    const [formState, setFormState] = useState<FormState<T>>(() => createFormState(initialValues));
+    const stateRef = useRef(formState);
+    stateRef.current = formState;
+    const defaultValuesRef = useRef(initialValues);
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const mountedRef = useRef(true);
+    const asyncRunsRef = useRef(new Map<string, AsyncValidationRun>());
+
+    const getValidators = () => (optionsRef.current.validators ?? {}) as Record<string, PathValidator | undefined>;
+    const getAsyncValidators = () => (optionsRef.current.asyncValidators ?? {}) as Record<string, PathValidator | undefined>;
+
+    const cancelAsyncValidation = useCallback((shouldCancel: (path: string) => boolean = () => true) => {
+        asyncRunsRef.current.forEach((run, path) => {
+            if (!shouldCancel(path)) return;
+            clearTimeout(run.timer);
+            run.controller?.abort();
+            asyncRunsRef.current.delete(path);
+        });
+    }, []);
+
+    useEffect(() => {
+        mountedRef.current = true;
+        return () => {
+            mountedRef.current = false;
+            cancelAsyncValidation();
+        };
+    }, [cancelAsyncValidation]);
+
+    const updateState = useCallback((update: (prev: FormState<T>) => FormState<T>) => {
+        stateRef.current = update(stateRef.current);
+        if (mountedRef.current) setFormState(stateRef.current);
+    }, []);
+
+    const setFieldError = useCallback(
+        (name: FieldPath<T>, error: string | null) => {
+            updateState((prev) => ({ ...prev, errors: withEntry(prev.errors, name as string, error ?? undefined) }));
+        },
+        [updateState]
+    );
+
+    const setFieldTouched = useCallback(
+        (name: FieldPath<T>, touched: boolean = true) => {
+            updateState((prev) => ({ ...prev, touched: withEntry(prev.touched, name as string, touched) }));
+        },
+        [updateState]
+    );
+
+    const setValidating = useCallback(
+        (path: string, validating: boolean) => {
+            if (!!stateRef.current.isValidating[path] === validating) return;
+            updateState((prev) => ({ ...prev, isValidating: withEntry(prev.isValidating, path, validating) }));
+        },
+        [updateState]
+    );
+
+    // Starting a new run for a field supersedes whatever is pending or in flight for it.
+    const startAsyncRun = useCallback(
+        (path: string): AsyncValidationRun => {
+            const previous = asyncRunsRef.current.get(path);
+            if (previous) {
+                clearTimeout(previous.timer);
+                previous.controller?.abort();
+            }
+            const run = { version: (previous?.version ?? 0) + 1 };
+            asyncRunsRef.current.set(path, run);
+            setValidating(path, false);
+            return run;
+        },
+        [setValidating]
+    );
+
+    // Resolves to undefined when the run was superseded, so callers leave the field's error untouched.
+    const runAsyncValidator = useCallback(
+        async (path: string, run: AsyncValidationRun): Promise<string | null | undefined> => {
+            const validator = getAsyncValidators()[path];
+            if (!validator) return null;
+
+            const controller = new AbortController();
+            run.controller = controller;
+            setValidating(path, true);
+            const { values } = stateRef.current;
+
+            try {
+                const error: string | null = await validator(getPath(values, path), values, controller.signal);
+                return controller.signal.aborted ? undefined : error;
+            } catch (error) {
+                if (controller.signal.aborted || isAbortError(error)) return undefined;
+                return error instanceof Error ? error.message : String(error);
+            } finally {
+                if (asyncRunsRef.current.get(path) === run) setValidating(path, false);
+            }
+        },
+        [setValidating]
+    );
+
+    const validateField = useCallback(
+        async (path: string) => {
+            const run = startAsyncRun(path);
+            const { schema, asyncDebounce = 300 } = optionsRef.current;
+            const { values } = stateRef.current;
+
+            let error: string | null = getValidators()[path]?.(getPath(values, path), values) ?? null;
+            if (!error && schema) {
+                error = (await runSchema(schema, values)).errors[path] ?? null;
+                if (asyncRunsRef.current.get(path) !== run) return;
+            }
+
+            updateState((prev) => ({ ...prev, errors: withEntry(prev.errors, path, error ?? undefined) }));
+            if (error || !getAsyncValidators()[path]) return;
+
+            // Same trailing-edge debounce as useDebouncedCallback, but keyed per field so fields don't cancel each other.
+            run.timer = setTimeout(async () => {
+                const asyncError = await runAsyncValidator(path, run);
+                if (asyncError !== undefined) {
+                    updateState((prev) => ({ ...prev, errors: withEntry(prev.errors, path, asyncError ?? undefined) }));
+                }
+            }, asyncDebounce);
+        },
+        [startAsyncRun, runAsyncValidator, updateState]
+    );
+
+    const handleChange = useCallback(
+        (name: FieldPath<T>, value: any) => {
+            updateState((prev) => ({ ...prev, values: setPath(prev.values, name as string, value) }));
+            if (optionsRef.current.mode === 'onChange') void validateField(name as string);
+        },
+        [updateState, validateField]
+    );
+
+    const handleBlur = useCallback(
+        (name: FieldPath<T>) => {
+            updateState((prev) => ({ ...prev, touched: withEntry(prev.touched, name as string, true) }));
+            if (optionsRef.current.mode === 'onBlur') void validateField(name as string);
+        },
+        [updateState, validateField]
+    );
+
+    const validate = useCallback(
+        (validators: FieldValidators<T> = optionsRef.current.validators ?? {}) => {
+            const errors = runValidators(validators as Record<string, PathValidator | undefined>, stateRef.current.values);
+            updateState((prev) => ({ ...prev, errors }));
+            return Object.keys(errors).length === 0;
+        },
+        [updateState]
+    );
+
+    // Full validation: field validators, the schema and async validators, without debouncing.
+    const trigger = useCallback(
+        async (name?: FieldPath<T>): Promise<boolean> => {
+            const validators = getValidators();
+            const asyncValidators = getAsyncValidators();
+            const { values } = stateRef.current;
+            const paths = name !== undefined ? [name as string] : Object.keys(asyncValidators);
+            const runs = paths.map((path) => startAsyncRun(path));
+
+            const schemaResult = await runSchema(optionsRef.current.schema, values);
+            const errors: ErrorMap = { ...schemaResult.errors, ...runValidators(validators, values) };
+
+            await Promise.all(
+                paths.map(async (path, index) => {
+                    if (errors[path]) return;
+                    const asyncError = await runAsyncValidator(path, runs[index]);
+                    if (asyncError) errors[path] = asyncError;
+                })
+            );
+
+            if (name !== undefined) {
+                const error = errors[name as string];
+                updateState((prev) => ({ ...prev, errors: withEntry(prev.errors, name as string, error) }));
+                return !error;
+            }
+
+            updateState((prev) => ({ ...prev, errors, formError: schemaResult.formError }));
+            return Object.keys(errors).length === 0 && !schemaResult.formError;
+        },
+        [startAsyncRun, runAsyncValidator, updateState]
+    );
+
+    const register = <P extends FieldPath<T>>(name: P): RegisteredField<FieldPathValue<T, P>> => ({
+        name,
+        value: getPath(formState.values, name),
+        onChange: (eventOrValue) => handleChange(name, getEventValue(eventOrValue)),
+        onBlur: () => handleBlur(name),
+    });
+
+    const handleSubmit = useCallback(
+        (
+            onValid: (values: T) => void | Promise<void>,
+            onInvalid?: (errors: FormErrors<T>, values: T) => void | Promise<void>
+        ) =>
+            async (event?: { preventDefault?: () => void }) => {
+                event?.preventDefault?.();
+
+                const touched: FlagMap = {};
+                collectLeafPaths(stateRef.current.values, '', Object.keys(getValidators())).forEach((path) => {
+                    touched[path] = true;
+                });
+                updateState((prev) => ({ ...prev, touched, submitCount: prev.submitCount + 1 }));
+
+                const { values } = stateRef.current;
+                if (!(await trigger())) {
+                    await onInvalid?.(stateRef.current.errors as FormErrors<T>, values);
+                    return;
+                }
+
+                updateState((prev) => ({ ...prev, isSubmitting: true }));
+                try {
+                    await onValid(values);
+                } finally {
+                    updateState((prev) => ({ ...prev, isSubmitting: false }));
+                }
+            },
+        [updateState, trigger]
+    );
+
+    const reset = useCallback(
+        (newValues?: T) => {
+            cancelAsyncValidation();
+            if (newValues) defaultValuesRef.current = newValues;
+            updateState(() => createFormState(defaultValuesRef.current));
+        },
+        [cancelAsyncValidation, updateState]
+    );
+
+    const updateFieldArray = useCallback<FieldArrayControl<T>['updateFieldArray']>(
+        (name, update, mapIndex) => {
+            const path = name as string;
+            const isInArray = (key: string) => key.startsWith(`${path}.`);
+            cancelAsyncValidation(isInArray);
+
+            updateState((prev) => {
+                const rows = getPath(prev.values, path);
+                const isValidating: FlagMap = {};
+                Object.keys(prev.isValidating).forEach((key) => {
+                    if (!isInArray(key)) isValidating[key] = prev.isValidating[key];
+                });
+
+                return {
+                    ...prev,
+                    values: setPath(prev.values, path, update(Array.isArray(rows) ? rows : [])),
+                    errors: remapArrayKeys(prev.errors, path, mapIndex),
+                    touched: remapArrayKeys(prev.touched, path, mapIndex),
+                    isValidating,
+                };
+            });
+        },
+        [cancelAsyncValidation, updateState]
+    );
+
+    // Leaf paths that differ from the defaults, plus every ancestor path so `dirty.address` works too.
+    const dirty = useMemo(() => {
+        const flags: FlagMap = {};
+        const defaults = defaultValuesRef.current;
+        collectLeafPaths(defaults, '', collectLeafPaths(formState.values, '', [])).forEach((path) => {
+            if (isJsonEqual(getPath(formState.values, path), getPath(defaults, path))) return;
+            splitPath(path).reduce((prefix, segment) => {
+                const key = joinPath(prefix, segment);
+                flags[key] = true;
+                return key;
+            }, '');
+        });
+        return flags;
+    }, [formState.values]);
+
+    return {
+        values: formState.values,
+        errors: formState.errors as FormErrors<T>,
+        formError: formState.formError,
+        touched: formState.touched as FormFlags<T>,
+        dirty: dirty as FormFlags<T>,
+        isValidating: formState.isValidating as FormFlags<T>,
+        isDirty: Object.keys(dirty).length > 0,
+        isValid: Object.keys(formState.errors).length === 0 && !formState.formError,
+        isSubmitting: formState.isSubmitting,
+        submitCount: formState.submitCount,
+        getValue: <P extends FieldPath<T>>(name: P): FieldPathValue<T, P> => getPath(formState.values, name),
+        handleChange,
+        handleBlur,
+        validate,
+        trigger,
+        register,
+        handleSubmit,
+        reset,
+        setFieldError,
+        setFieldTouched,
+        updateFieldArray,
+    };
+}
+
+type FieldArrayRow<T, P extends string> = FieldPathValue<T, P> extends ReadonlyArray<infer R> ? R : never;
+
+let fieldArrayKeyCounter = 0;
+
+export function useFieldArray<T, P extends FieldPath<T>>(form: FieldArrayControl<T>, name: P) {
+    type Row = FieldArrayRow<T, P>;
+    const rawRows = getPath(form.values, name);
+    const rows: Row[] = Array.isArray(rawRows) ? rawRows : [];
+    const keysRef = useRef<string[]>([]);
+
+    // Keys follow rows through reorders so React keeps inputs attached to the right row.
+    if (keysRef.current.length !== rows.length) {
+        keysRef.current = keysRef.current.slice(0, rows.length);
+        while (keysRef.current.length < rows.length) keysRef.current.push(`field-${++fieldArrayKeyCounter}`);
+    }
+
+    const apply = (
+        update: <V>(items: V[]) => V[],
+        mapIndex: (index: number) => number | undefined
+    ) => {
+        keysRef.current = update(keysRef.current);
+        form.updateFieldArray(name, update, mapIndex);
+    };
+
+    // An undefined index appends against the latest rows, so several appends in one handler all land.
+    const insertAt = (index: number | undefined, values: Row[]) => {
+        const newKeys = values.map(() => `field-${++fieldArrayKeyCounter}`);
+        const spliceIn = <V>(items: V[], added: V[]) => {
+            const at = index ?? items.length;
+            return items.slice(0, at).concat(added, items.slice(at));
+        };
+        keysRef.current = spliceIn(keysRef.current, newKeys);
+        form.updateFieldArray(
+            name,
+            (items) => spliceIn(items, values),
+            (i) => (index !== undefined && i >= index ? i + values.length : i)
+        );
+    };
+
+    const append = (...values: Row[]) => insertAt(undefined, values);
+
+    const prepend = (...values: Row[]) => insertAt(0, values);
+
+    const insert = (index: number, ...values: Row[]) => insertAt(Math.max(0, Math.min(index, rows.length)), values);
+
+    const remove = (index: number) =>
+        apply(
+            (items) => items.filter((_, i) => i !== index),
+            (i) => (i === index ? undefined : i > index ? i - 1 : i)
+        );
+
+    const move = (from: number, to: number) =>
+        apply(
+            (items) => {
+                const next = items.slice();
+                next.splice(to, 0, next.splice(from, 1)[0]);
+                return next;
+            },
+            (i) => {
+                if (i === from) return to;
+                if (from < to && i > from && i <= to) return i - 1;
+                if (from > to && i >= to && i < from) return i + 1;
+                return i;
+            }
+        );
+
+    const swap = (a: number, b: number) =>
+        apply(
+            (items) => {
+                const next = items.slice();
+                next[a] = items[b];
+                next[b] = items[a];
+                return next;
+            },
+            (i) => (i === a ? b : i === b ? a : i)
+        );
+
+    const replace = (values: Row[]) => {
+        keysRef.current = values.map(() => `field-${++fieldArrayKeyCounter}`);
+        form.updateFieldArray(name, () => values, () => undefined);
+    };
+
+    return {
+        fields: rows.map((value, index) => ({ key: keysRef.current[index], index, name: `${name}.${index}`, value })),
+        append,
+        prepend,
+        insert,
+        remove,
+        move,
+        swap,
+        replace,
+    };
+}
+
+
+export function useArray<T>(initialArray: T[]) {
+    const [array, setArray] = useState(initialArray);
+
+    return {
+        array,
+        set: setArray,
+        push: (item: T) => setArray((prev) => [...prev, item]),
+        removeByIndex: (index: number) => setArray((prev) => prev.filter((_, i) => i !== index)),
+        clear: () => setArray([]),
+    };
+}
+
+
+export function useStep<T>(steps: T[]) {
+    const [currentStepIndex, setCurrentStepIndex] = useState(0);
+
+    const next = () => setCurrentStepIndex((i) => Math.min(i + 1, steps.length - 1));
+    const previous = () => setCurrentStepIndex((i) => Math.max(i - 1, 0));
+    const reset = () => setCurrentStepIndex(0);
+
+    return {
+        currentStep: steps[currentStepIndex],
+        currentStepIndex,
+        next,
+        previous,
+        reset,
+        isFirstStep: currentStepIndex === 0,
+        isLastStep: currentStepIndex === steps.length - 1,
+    };
+}
+
+export interface WizardStep<T> {
+    id: string;
+    fields?: FieldPath<T>[];
+    validators?: FieldValidators<T>;
+    asyncValidators?: AsyncFieldValidators<T>;
+    schema?: StandardSchema<T>;
+}
+
+export interface WizardDraft<T> {
+    values: T;
+    currentStepIndex: number;
+    completed: string[];
+    visited: string[];
+}
+
+export interface UseWizardOptions<T> {
+    key: string;
+    steps: WizardStep<T>[];
+    initialValues: T;
+    mode?: ValidationMode;
+    urlParam?: string | false;
+    storage?: StorageOptions<WizardDraft<T>>;
+    onComplete?: (values: T) => void | Promise<void>;
+}
+
+const withItem = (items: string[], item: string): string[] => (items.indexOf(item) === -1 ? items.concat(item) : items);
+
+export function useWizard<T extends Record<string, any>>(options: UseWizardOptions<T>) {
+    const { key, steps, initialValues, mode, urlParam = 'step', storage } = options;
+    const stepIds = steps.map((step) => step.id);
+    const [draft, setDraft, removeDraft] = usePersistedState<WizardDraft<T>>(
+        key,
+        { values: initialValues, currentStepIndex: 0, completed: [], visited: stepIds.slice(0, 1) },
+        storage
+    );
+    const { state: historyState, push, replace } = useHistory();
+
+    const currentStepIndex = Math.max(0, Math.min(draft.currentStepIndex, steps.length - 1));
+    const currentStep = steps[currentStepIndex];
+    const form = useForm<T>(draft.values, {
+        mode,
+        validators: currentStep?.validators,
+        asyncValidators: currentStep?.asyncValidators,
+        schema: currentStep?.schema,
+    });
+
+    // Writing only on real changes keeps mount from re-creating the draft and reset() from being undone.
+    useEffect(() => {
+        if (isJsonEqual(draft.values, form.values)) return;
+        setDraft((prev) => ({ ...prev, values: form.values }));
+    }, [form.values]);
+
+    // Earlier steps are always reachable; later ones only once every step before them is completed.
+    const canVisit = (index: number) =>
+        index >= 0 &&
+        index < steps.length &&
+        (index <= currentStepIndex || stepIds.slice(0, index).every((id) => draft.completed.indexOf(id) !== -1));
+
+    const syncUrl = (index: number, method: 'push' | 'replace') => {
+        if (urlParam === false || !isReady() || !stepIds[index]) return;
+
+        const url = new URL(window.location.href);
+        if (method === 'push' && url.searchParams.get(urlParam) === stepIds[index]) return;
+        url.searchParams.set(urlParam, stepIds[index]);
+        (method === 'push' ? push : replace)(`${url.pathname}${url.search}${url.hash}`, {
+            ...window.history.state,
+            [urlParam]: stepIds[index],
+        });
+    };
+
+    const showStep = (index: number) => {
+        setDraft((prev) => ({ ...prev, currentStepIndex: index, visited: withItem(prev.visited, stepIds[index]) }));
+    };
+
+    useEffect(() => {
+        if (urlParam === false || !isReady()) return;
+
+        const index = stepIds.indexOf(new URLSearchParams(window.location.search).get(urlParam) ?? '');
+        if (index !== -1 && canVisit(index)) {
+            showStep(index);
+            syncUrl(index, 'replace');
+        } else {
+            syncUrl(currentStepIndex, 'replace');
+        }
+    }, []);
+
+    // Back/forward buttons land here through useHistory's popstate tracking.
+    useEffect(() => {
+        if (urlParam === false || !historyState) return;
+
+        const index = stepIds.indexOf(historyState[urlParam]);
+        if (index !== -1 && index !== currentStepIndex && canVisit(index)) showStep(index);
+    }, [historyState]);
+
+    const goTo = (index: number) => {
+        if (!canVisit(index)) return false;
+        showStep(index);
+        syncUrl(index, 'push');
+        return true;
+    };
+
+    const next = async (): Promise<boolean> => {
+        // Only the current step's fields are marked touched, so later steps don't show errors early.
+        const stepFields = currentStep?.fields ?? Object.keys({ ...currentStep?.validators, ...currentStep?.asyncValidators });
+        stepFields.forEach((field) => form.setFieldTouched(field as FieldPath<T>));
+        // With explicit fields, a full-form schema only gates the step on errors in those fields.
+        const isValid = currentStep?.fields
+            ? (await Promise.all(currentStep.fields.map((field) => form.trigger(field)))).every(Boolean)
+            : await form.trigger();
+        if (!isValid) return false;
+
+        const { values } = form;
+        const index = currentStepIndex;
+        const isLastStep = index >= steps.length - 1;
+        setDraft((prev) => ({ ...prev, completed: withItem(prev.completed, stepIds[index]) }));
+
+        if (isLastStep) {
+            await options.onComplete?.(values);
+        } else {
+            showStep(index + 1);
+            syncUrl(index + 1, 'push');
+        }
+        return true;
+    };
+
+    const previous = () => goTo(currentStepIndex - 1);
+
+    const reset = () => {
+        form.reset(initialValues);
+        removeDraft();
+        syncUrl(0, 'replace');
+    };
+
+    return {
+        form,
+        steps: steps.map((step, index) => ({
+            id: step.id,
+            index,
+            isCurrent: index === currentStepIndex,
+            isCompleted: draft.completed.indexOf(step.id) !== -1,
+            isVisited: draft.visited.indexOf(step.id) !== -1,
+            hasErrors: (step.fields ?? Object.keys(step.validators ?? {})).some(
+                (field) => !!(form.errors as Record<string, string | undefined>)[field]
+            ),
+            canVisit: canVisit(index),
+        })),
+        currentStep,
+        currentStepIndex,
+        isFirstStep: currentStepIndex === 0,
+        isLastStep: currentStepIndex === steps.length - 1,
+        next,
+        previous,
+        goTo,
+        reset,
+    };
+}
+
+export function useTimeoutFn(callback: () => void, delay: number | null) {
+    const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+    const reset = () => {
+        if (timeoutRef.current) clearTimeout(timeoutRef.current);
+        if (delay !== null) timeoutRef.current = setTimeout(callback, delay);
+    };
+
+    const clear = () => {
+        if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    };
+
+    useEffect(() => {
+        reset();
+        return clear;
+    }, [callback, delay]);
+
+    return { reset, clear };
+}
+
+
+export function useDebouncedCallback(callback: () => void, delay: number) {
+    const { reset, clear } = useTimeoutFn(callback, delay);
+
+    const debouncedCallback = useCallback(() => {
+        clear();
+        reset();
+    }, [clear, reset]);
+
+    return debouncedCallback;
+}
+
+export function useScrollLock(lock: boolean) {
+    useEffect(() => {
+        if (lock) {
+            const originalOverflow = document.body.style.overflow;
+            document.body.style.overflow = 'hidden';
+            return () => {
+                document.body.style.overflow = originalOverflow;
+            };
+        }
+    }, [lock]);
+}
+
+export function useResizeObserver<T extends HTMLElement>(ref: RefObject<T>): WindowSize | null {
+    const [size, setSize] = useState<WindowSize | null>(null);
+
+    useEffect(() => {
+        const handleResize = (entries: ResizeObserverEntry[]) => {
+            const entry = entries[0];
+            if (entry) {
+                setSize({
+                    width: entry.contentRect.width,
+                    height: entry.contentRect.height,
+                });
+            }
+        };
+
+        const observer = new ResizeObserver(handleResize);
+        if (ref.current) observer.observe(ref.current);
+
+        return () => {
+            if (ref.current) observer.unobserve(ref.current);
+        };
+    }, [ref]);
+
+    return size;
+}
+
+interface MousePosition {
+    x: number;
+    y: number;
+}
+
+export function useMousePosition(): MousePosition {
+    const [position, setPosition] = useState<MousePosition>({ x: 0, y: 0 });
+
+    useEffect(() => {
+        const handleMouseMove = (event: MouseEvent) => {
+            setPosition({ x: event.clientX, y: event.clientY });
+        };
+
+        document.addEventListener('mousemove', handleMouseMove);
+        return () => document.removeEventListener('mousemove', handleMouseMove);
+    }, []);
+
+    return position;
+}
+
+type ScrollDirection = 'up' | 'down';
+
+export function useScrollDirection(): ScrollDirection {
+    const [scrollDirection, setScrollDirection] = useState<ScrollDirection>('up');
+    const [lastScrollY, setLastScrollY] = useState(0);
+
+    useEffect(() => {
         const handleScroll = () => {
             const currentScrollY = window.scrollY;
             setScrollDirection(currentScrollY > lastScrollY ? 'down' : 'up');
             setLastScrollY(currentScrollY);
         };
 
-        window.addEventListener('scroll', handleScroll);
-        return () => window.removeEventListener('scroll', handleScroll);
-    }, [lastScrollY]);
+        window.addEventListener('scroll', handleScroll);
+        return () => window.removeEventListener('scroll', handleScroll);
+    }, [lastScrollY]);
+
+    return scrollDirection;
+}
+
+export function useImageLoader(src: string): { loaded: boolean; error: boolean } {
+    const [loaded, setLoaded] = useState(false);
+    const [error, setError] = useState(false);
+
+    useEffect(() => {
+        const img = new Image();
+        img.src = src;
+
+        const handleLoad = () => setLoaded(true);
+        const handleError = () => setError(true);
+
+        img.addEventListener('load', handleLoad);
+        img.addEventListener('error', handleError);
+
+        return () => {
+            img.removeEventListener('load', handleLoad);
+            img.removeEventListener('error', handleError);
+        };
+    }, [src]);
+
+    return { loaded, error };
+}
+
+
+export function usePersistedState<T>(key: string, initialValue: T, options?: StorageOptions<T>): StorageStateReturn<T> {
+    return useStorageState('local', key, initialValue, options);
+}
+
+export function useReducedMotion(): boolean {
+    const [reducedMotion, setReducedMotion] = useState(false);
+
+    useEffect(() => {
+        const mediaQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+        setReducedMotion(mediaQuery.matches);
+
+        const handleChange = (e: MediaQueryListEvent) => setReducedMotion(e.matches);
+        mediaQuery.addEventListener('change', handleChange);
+
+        return () => {
+            mediaQuery.removeEventListener('change', handleChange);
+        };
+    }, []);
+
+    return reducedMotion;
+}
+
+export interface CookieOptions {
+    expires?: Date;
+    maxAge?: number;
+    path?: string;
+    domain?: string;
+    secure?: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+export interface UseCookieOptions {
+    json?: boolean;
+    pollInterval?: number;
+    defaults?: CookieOptions;
+}
+
+interface CookieStoreLike {
+    addEventListener: (type: 'change', listener: () => void) => void;
+    removeEventListener: (type: 'change', listener: () => void) => void;
+}
+
+const safeDecode = (value: string): string => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+const parseCookies = (): Record<string, string> => {
+    const cookies: Record<string, string> = {};
+    if (!isReady() || !document.cookie) return cookies;
+
+    document.cookie.split(';').forEach((part) => {
+        const separator = part.indexOf('=');
+        if (separator === -1) return;
+
+        const name = safeDecode(part.slice(0, separator).trim());
+        if (!(name in cookies)) cookies[name] = safeDecode(part.slice(separator + 1).trim());
+    });
+    return cookies;
+};
+
+const serializeCookie = (name: string, value: string, options: CookieOptions = {}): string => {
+    const parts = [`${encodeURIComponent(name)}=${encodeURIComponent(value)}`];
+    if (options.expires) parts.push(`Expires=${options.expires.toUTCString()}`);
+    if (options.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+    parts.push(`Path=${options.path ?? '/'}`);
+    if (options.domain) parts.push(`Domain=${options.domain}`);
+    if (options.secure || options.sameSite === 'None') parts.push('Secure');
+    if (options.sameSite) parts.push(`SameSite=${options.sameSite}`);
+    return parts.join('; ');
+};
+
+const cookieListeners = new Set<() => void>();
+let stopCookieWatcher: (() => void) | null = null;
+
+const notifyCookieListeners = () => cookieListeners.forEach((listener) => listener());
+
+// One watcher serves every hook: the Cookie Store API when the browser has it, otherwise polling document.cookie.
+const subscribeCookies = (listener: () => void, pollInterval: number) => {
+    cookieListeners.add(listener);
+
+    if (!stopCookieWatcher && isReady()) {
+        const cookieStore = (window as Window & { cookieStore?: CookieStoreLike }).cookieStore;
+        if (cookieStore) {
+            cookieStore.addEventListener('change', notifyCookieListeners);
+            stopCookieWatcher = () => cookieStore.removeEventListener('change', notifyCookieListeners);
+        } else {
+            let lastCookie = document.cookie;
+            const intervalId = setInterval(() => {
+                if (document.cookie === lastCookie) return;
+                lastCookie = document.cookie;
+                notifyCookieListeners();
+            }, pollInterval);
+            stopCookieWatcher = () => clearInterval(intervalId);
+        }
+    }
+
+    return () => {
+        cookieListeners.delete(listener);
+        if (cookieListeners.size === 0 && stopCookieWatcher) {
+            stopCookieWatcher();
+            stopCookieWatcher = null;
+        }
+    };
+};
+
+export function useCookie<T = string>(
+    key: string,
+    options: UseCookieOptions = {}
+): [T | null, (value: T, options?: CookieOptions) => void, (options?: Pick<CookieOptions, 'path' | 'domain'>) => void] {
+    const { json = false, pollInterval = 1000 } = options;
+    const [raw, setRaw] = useState<string | null>(() => parseCookies()[key] ?? null);
+    const defaultsRef = useRef(options.defaults);
+    defaultsRef.current = options.defaults;
+    const lastOptionsRef = useRef<CookieOptions>({});
+
+    useEffect(() => {
+        const sync = () => setRaw(parseCookies()[key] ?? null);
+        sync();
+        return subscribeCookies(sync, pollInterval);
+    }, [key, pollInterval]);
+
+    const cookie = useMemo((): T | null => {
+        if (raw === null || !json) return raw as T | null;
+        try {
+            return JSON.parse(raw);
+        } catch {
+            return null;
+        }
+    }, [raw, json]);
+
+    const setCookie = useCallback(
+        (value: T, cookieOptions: CookieOptions = {}) => {
+            const merged = { ...defaultsRef.current, ...cookieOptions };
+            lastOptionsRef.current = merged;
+            document.cookie = serializeCookie(key, json ? JSON.stringify(value) : String(value), merged);
+            notifyCookieListeners();
+        },
+        [key, json]
+    );
+
+    // A cookie is only removed when path and domain match the ones it was written with.
+    const deleteCookie = useCallback(
+        (cookieOptions: Pick<CookieOptions, 'path' | 'domain'> = {}) => {
+            const { path, domain } = { ...defaultsRef.current, ...lastOptionsRef.current, ...cookieOptions };
+            document.cookie = serializeCookie(key, '', { path, domain, expires: new Date(0), maxAge: 0 });
+            notifyCookieListeners();
+        },
+        [key]
+    );
+
+    return [cookie, setCookie, deleteCookie];
+}
+
+export function useCookies(pollInterval: number = 1000): Record<string, string> {
+    const [cookies, setCookies] = useState<Record<string, string>>(parseCookies);
+    const lastCookieRef = useRef(isReady() ? document.cookie : '');
+
+    useEffect(() => {
+        const sync = () => {
+            if (document.cookie === lastCookieRef.current) return;
+            lastCookieRef.current = document.cookie;
+            setCookies(parseCookies());
+        };
+        sync();
+        return subscribeCookies(sync, pollInterval);
+    }, [pollInterval]);
+
+    return cookies;
+}
+
+export interface HttpError extends Error {
+    status: number;
+    headers: Headers;
+}
+
+const createHttpError = (response: Response, message: string): HttpError =>
+    Object.assign(new Error(message), { status: response.status, headers: response.headers });
+
+const isAbortError = (error: unknown): boolean => (error as { name?: string } | null)?.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const abortError = () => Object.assign(new Error('Aborted'), { name: 'AbortError' });
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// Exponential backoff; with jitter the delay is spread over [delay / 2, delay) so clients don't retry in lockstep.
+const getBackoffDelay = (attempt: number, baseDelay: number = 1000, maxDelay: number = 30000, jitter: boolean = true): number => {
+    const delay = Math.min(maxDelay, baseDelay * Math.pow(2, Math.max(0, attempt - 1)));
+    return jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+};
+
+const parseRetryAfter = (value: string | null | undefined): number | null => {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export interface RetryOptions {
+    retries?: number;
+    retryDelay?: number;
+    maxRetryDelay?: number;
+    jitter?: boolean;
+    retryOn?: (error: Error, attempt: number) => boolean;
+}
+
+const defaultRetryOn = (error: Error): boolean => {
+    const { status } = error as Partial<HttpError>;
+    return status === undefined || status === 408 || status === 429 || status >= 500;
+};
+
+interface FetchRetryState<T> {
+    data: T | null;
+    error: string | null;
+    loading: boolean;
+    attempt: number;
+}
+
+export interface UseFetchRetryReturn<T> extends FetchRetryState<T> {
+    retry: () => void;
+}
+
+export function useFetchRetry<T>(
+    url: string,
+    options: RequestInit & RetryOptions = {},
+    retries: number = 3
+): UseFetchRetryReturn<T> {
+    const [state, setState] = useState<FetchRetryState<T>>({
+        data: null,
+        error: null,
+        loading: true,
+        attempt: 0,
+    });
+    const [runId, setRunId] = useState(0);
+
+    // Options are read through a ref so an inline object literal doesn't restart the request on every render.
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    const transport = useTransport();
+    const maxAttempts = options.retries ?? retries;
+    const requestKey = JSON.stringify([
+        options.method,
+        options.headers,
+        typeof options.body === 'string' ? options.body : null,
+    ]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        const {
+            retries: _retries,
+            retryDelay,
+            maxRetryDelay,
+            jitter,
+            retryOn = defaultRetryOn,
+            ...init
+        } = optionsRef.current;
+
+        const fetchData = async () => {
+            let attempt = 0;
+            setState((prev) => ({ ...prev, error: null, loading: true, attempt }));
+
+            while (true) {
+                try {
+                    const response = await transport(url, { ...init, signal: controller.signal });
+                    if (!response.ok) throw createHttpError(response, `HTTP error! status: ${response.status}`);
+                    const data: T = await response.json();
+                    setState({ data, error: null, loading: false, attempt });
+                    return;
+                } catch (error) {
+                    if (controller.signal.aborted || isAbortError(error)) return;
+
+                    attempt++;
+                    const err = error instanceof Error ? error : new Error('An error occurred');
+                    if (attempt >= maxAttempts || !retryOn(err, attempt)) {
+                        setState({ data: null, error: err.message, loading: false, attempt });
+                        return;
+                    }
+
+                    setState((prev) => ({ ...prev, attempt }));
+
+                    const retryAfter = parseRetryAfter((err as Partial<HttpError>).headers?.get('Retry-After'));
+                    try {
+                        await sleep(retryAfter ?? getBackoffDelay(attempt, retryDelay, maxRetryDelay, jitter), controller.signal);
+                    } catch {
+                        return;
+                    }
+                }
+            }
+        };
+
+        fetchData();
+        return () => controller.abort();
+    }, [url, requestKey, maxAttempts, runId, transport]);
+
+    const retry = useCallback(() => setRunId((id) => id + 1), []);
+
+    return { ...state, retry };
+}
+
+export type WebSocketStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface WebSocketOptions<TMessage = unknown> {
+    protocols?: string | string[];
+    reconnect?: boolean;
+    maxReconnectAttempts?: number;
+    reconnectDelay?: number;
+    maxReconnectDelay?: number;
+    heartbeatInterval?: number;
+    heartbeatMessage?: string | (() => string);
+    heartbeatResponse?: string;
+    heartbeatTimeout?: number;
+    maxQueueSize?: number;
+    parseJson?: boolean;
+    filter?: (message: TMessage) => boolean;
+    onMessage?: (message: TMessage, event: MessageEvent) => void;
+    onOpen?: (event: Event) => void;
+    onClose?: (event: CloseEvent) => void;
+    onError?: (event: Event) => void;
+}
+
+export interface UseWebSocketReturn<TMessage> {
+    status: WebSocketStatus;
+    lastMessage: TMessage | null;
+    reconnectAttempt: number;
+    send: (data: unknown) => void;
+    reconnect: () => void;
+    close: () => void;
+}
+
+interface WebSocketConnection {
+    getStatus: () => WebSocketStatus;
+    getReconnectAttempt: () => number;
+    send: (data: unknown) => void;
+    reconnect: () => void;
+    close: () => void;
+    subscribe: (listener: (event: Event) => void) => () => void;
+}
+
+const serializeSocketData = (data: unknown): string | ArrayBufferLike | Blob | ArrayBufferView => {
+    if (typeof data === 'string' || data instanceof Blob || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        return data;
+    }
+    return JSON.stringify(data);
+};
+
+const createWebSocketConnection = (url: string, options: WebSocketOptions<any>): WebSocketConnection => {
+    const {
+        protocols,
+        reconnect: shouldReconnect = true,
+        maxReconnectAttempts = Infinity,
+        reconnectDelay = 1000,
+        maxReconnectDelay = 30000,
+        heartbeatInterval = 0,
+        heartbeatMessage = 'ping',
+        heartbeatResponse = 'pong',
+        heartbeatTimeout = 0,
+        maxQueueSize = 100,
+    } = options;
+
+    let socket: WebSocket | null = null;
+    let status: WebSocketStatus = 'connecting';
+    let reconnectAttempt = 0;
+    let manuallyClosed = false;
+    let lastMessageAt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+    const queue: unknown[] = [];
+    const listeners = new Set<(event: Event) => void>();
+
+    const emit = (event: Event) => listeners.forEach((listener) => listener(event));
+
+    const setStatus = (next: WebSocketStatus) => {
+        status = next;
+        emit(new Event('statuschange'));
+    };
+
+    const stopHeartbeat = () => clearInterval(heartbeatTimer);
+
+    const startHeartbeat = () => {
+        stopHeartbeat();
+        if (!heartbeatInterval) return;
+
+        heartbeatTimer = setInterval(() => {
+            if (!socket || socket.readyState !== WebSocket.OPEN) return;
+            // A silent connection is assumed dead; closing it hands over to the reconnect logic.
+            if (heartbeatTimeout && Date.now() - lastMessageAt > heartbeatInterval + heartbeatTimeout) {
+                socket.close();
+                return;
+            }
+            socket.send(typeof heartbeatMessage === 'function' ? heartbeatMessage() : heartbeatMessage);
+        }, heartbeatInterval);
+    };
+
+    const connect = () => {
+        setStatus(reconnectAttempt > 0 ? 'reconnecting' : 'connecting');
+        const current = new WebSocket(url, protocols);
+        socket = current;
+
+        current.onopen = (event) => {
+            reconnectAttempt = 0;
+            lastMessageAt = Date.now();
+            setStatus('open');
+            startHeartbeat();
+            while (queue.length > 0 && current.readyState === WebSocket.OPEN) {
+                current.send(serializeSocketData(queue.shift()));
+            }
+            emit(event);
+        };
+
+        current.onmessage = (event) => {
+            lastMessageAt = Date.now();
+            if (heartbeatInterval && event.data === heartbeatResponse) return;
+            emit(event);
+        };
+
+        current.onerror = (event) => emit(event);
+
+        current.onclose = (event) => {
+            stopHeartbeat();
+            if (socket !== current) return;
+            socket = null;
+            emit(event);
+
+            if (manuallyClosed || !shouldReconnect || reconnectAttempt >= maxReconnectAttempts) {
+                setStatus('closed');
+                return;
+            }
+
+            reconnectAttempt++;
+            setStatus('reconnecting');
+            reconnectTimer = setTimeout(connect, getBackoffDelay(reconnectAttempt, reconnectDelay, maxReconnectDelay));
+        };
+    };
+
+    connect();
+
+    return {
+        getStatus: () => status,
+        getReconnectAttempt: () => reconnectAttempt,
+        send: (data) => {
+            if (socket && socket.readyState === WebSocket.OPEN) {
+                socket.send(serializeSocketData(data));
+                return;
+            }
+            queue.push(data);
+            if (queue.length > maxQueueSize) queue.shift();
+        },
+        reconnect: () => {
+            clearTimeout(reconnectTimer);
+            manuallyClosed = false;
+            reconnectAttempt = 0;
+            const previous = socket;
+            socket = null;
+            previous?.close();
+            stopHeartbeat();
+            connect();
+        },
+        close: () => {
+            manuallyClosed = true;
+            clearTimeout(reconnectTimer);
+            stopHeartbeat();
+            if (socket) {
+                socket.close();
+            } else {
+                setStatus('closed');
+            }
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
+
+// Hooks using the same URL share one socket; the options of the first subscriber configure the connection.
+const sharedWebSockets = new Map<string, { connection: WebSocketConnection; refs: number }>();
+
+const acquireWebSocket = (url: string, options: WebSocketOptions<any>): WebSocketConnection => {
+    let shared = sharedWebSockets.get(url);
+    if (!shared) {
+        shared = { connection: createWebSocketConnection(url, options), refs: 0 };
+        sharedWebSockets.set(url, shared);
+    }
+    shared.refs++;
+    return shared.connection;
+};
+
+const releaseWebSocket = (url: string) => {
+    const shared = sharedWebSockets.get(url);
+    if (!shared) return;
+
+    shared.refs--;
+    if (shared.refs <= 0) {
+        sharedWebSockets.delete(url);
+        shared.connection.close();
+    }
+};
+
+export function useWebSocket<TMessage = unknown>(
+    url: string | null,
+    options: WebSocketOptions<TMessage> = {}
+): UseWebSocketReturn<TMessage> {
+    const [status, setStatus] = useState<WebSocketStatus>(url ? 'connecting' : 'closed');
+    const [reconnectAttempt, setReconnectAttempt] = useState(0);
+    const [lastMessage, setLastMessage] = useState<TMessage | null>(null);
+
+    const [detached, setDetached] = useState(false);
+
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const connectionRef = useRef<WebSocketConnection | null>(null);
+
+    useEffect(() => {
+        if (!url || detached || !isReady()) return;
+
+        const connection = acquireWebSocket(url, optionsRef.current);
+        connectionRef.current = connection;
+        setStatus(connection.getStatus());
+
+        const unsubscribe = connection.subscribe((event) => {
+            const { parseJson = false, filter, onMessage, onOpen, onClose, onError } = optionsRef.current;
+
+            if (event.type === 'statuschange') {
+                setStatus(connection.getStatus());
+                setReconnectAttempt(connection.getReconnectAttempt());
+            } else if (event.type === 'open') {
+                onOpen?.(event);
+            } else if (event.type === 'close') {
+                onClose?.(event as CloseEvent);
+            } else if (event.type === 'error') {
+                onError?.(event);
+            } else if (event.type === 'message') {
+                const messageEvent = event as MessageEvent;
+                let message = messageEvent.data as TMessage;
+                if (parseJson && typeof messageEvent.data === 'string') {
+                    try {
+                        message = JSON.parse(messageEvent.data);
+                    } catch {
+                        // Non-JSON frames are passed through as raw strings.
+                    }
+                }
+                if (filter && !filter(message)) return;
+
+                setLastMessage(message);
+                onMessage?.(message, messageEvent);
+            }
+        });
+
+        return () => {
+            unsubscribe();
+            connectionRef.current = null;
+            releaseWebSocket(url);
+        };
+    }, [url, detached]);
+
+    const send = useCallback((data: unknown) => connectionRef.current?.send(data), []);
+
+    const reconnect = useCallback(() => {
+        if (connectionRef.current) connectionRef.current.reconnect();
+        else setDetached(false);
+    }, []);
+
+    // Only detaches this component; the shared socket closes once its last subscriber lets go.
+    const close = useCallback(() => {
+        setDetached(true);
+        setStatus('closed');
+    }, []);
+
+    return { status, lastMessage, reconnectAttempt, send, reconnect, close };
+}
+
+export interface WebSocketSubscriptionOptions<TMessage> extends WebSocketOptions<TMessage> {
+    getType?: (message: TMessage) => unknown;
+}
+
+export function useWebSocketSubscription<TMessage = { type: string }>(
+    url: string | null,
+    type: string,
+    options: WebSocketSubscriptionOptions<TMessage> = {}
+): UseWebSocketReturn<TMessage> {
+    const { getType = (message: TMessage) => (message as { type?: unknown } | null)?.type, ...socketOptions } = options;
+
+    return useWebSocket<TMessage>(url, {
+        parseJson: true,
+        ...socketOptions,
+        filter: (message) => getType(message) === type && (!socketOptions.filter || socketOptions.filter(message)),
+    });
+}
+
+export type EventSourceStatus = 'connecting' | 'open' | 'closed';
+
+export interface EventSourceOptions<TData = unknown> {
+    events?: string[];
+    withCredentials?: boolean;
+    parseJson?: boolean;
+    pauseWhenHidden?: boolean;
+    lastEventIdParam?: string;
+    reconnectDelay?: number;
+    maxReconnectDelay?: number;
+    onMessage?: (eventName: string, data: TData, event: MessageEvent) => void;
+}
+
+export interface UseEventSourceReturn<TData> {
+    status: EventSourceStatus;
+    lastMessage: TData | null;
+    messages: Record<string, TData>;
+    lastEventId: string | null;
+    close: () => void;
+    reconnect: () => void;
+}
+
+const appendQueryParam = (url: string, name: string, value: string): string =>
+    `${url}${url.indexOf('?') === -1 ? '?' : '&'}${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
+
+export function useEventSource<TData = unknown>(
+    url: string | null,
+    options: EventSourceOptions<TData> = {}
+): UseEventSourceReturn<TData> {
+    const {
+        events = [],
+        withCredentials = false,
+        pauseWhenHidden = false,
+        lastEventIdParam = 'lastEventId',
+        reconnectDelay = 1000,
+        maxReconnectDelay = 30000,
+    } = options;
+
+    const isVisible = useVisibilityChange();
+    const [closed, setClosed] = useState(false);
+    const [connectionId, setConnectionId] = useState(0);
+    const isActive = url !== null && !closed && (!pauseWhenHidden || isVisible);
+
+    const [status, setStatus] = useState<EventSourceStatus>(isActive ? 'connecting' : 'closed');
+    const [messages, setMessages] = useState<Record<string, TData>>({});
+    const [lastEventId, setLastEventId] = useState<string | null>(null);
+
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const lastEventIdRef = useRef<string | null>(null);
+    const eventsKey = events.join(',');
+
+    useEffect(() => {
+        if (!isActive || url === null || typeof EventSource === 'undefined') {
+            setStatus('closed');
+            return;
+        }
+
+        let source: EventSource | null = null;
+        let attempt = 0;
+        let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const handleMessage = (eventName: string) => (event: MessageEvent) => {
+            const { parseJson = false, onMessage } = optionsRef.current;
+            let data = event.data as TData;
+            if (parseJson) {
+                try {
+                    data = JSON.parse(event.data);
+                } catch {
+                    // Malformed payloads are delivered as the raw string.
+                }
+            }
+
+            if (event.lastEventId) {
+                lastEventIdRef.current = event.lastEventId;
+                setLastEventId(event.lastEventId);
+            }
+            setMessages((prev) => ({ ...prev, [eventName]: data }));
+            onMessage?.(eventName, data, event);
+        };
+
+        // The browser replays Last-Event-ID on its own retries, but a fresh EventSource cannot set that
+        // header, so the last seen id is passed as a query parameter when we reopen the stream ourselves.
+        const connect = () => {
+            const streamUrl = lastEventIdRef.current
+                ? appendQueryParam(url, lastEventIdParam, lastEventIdRef.current)
+                : url;
+
+            setStatus('connecting');
+            source = new EventSource(streamUrl, { withCredentials });
+            source.onopen = () => {
+                attempt = 0;
+                setStatus('open');
+            };
+            source.onerror = () => {
+                if (!source) return;
+                if (source.readyState === EventSource.CLOSED) {
+                    source.close();
+                    attempt++;
+                    setStatus('connecting');
+                    reconnectTimer = setTimeout(connect, getBackoffDelay(attempt, reconnectDelay, maxReconnectDelay));
+                } else {
+                    setStatus('connecting');
+                }
+            };
+
+            source.addEventListener('message', handleMessage('message'));
+            events.forEach((eventName) => source?.addEventListener(eventName, handleMessage(eventName) as EventListener));
+        };
+
+        connect();
+
+        return () => {
+            clearTimeout(reconnectTimer);
+            source?.close();
+            source = null;
+        };
+    }, [url, isActive, eventsKey, withCredentials, lastEventIdParam, connectionId]);
+
+    const close = useCallback(() => setClosed(true), []);
+    const reconnect = useCallback(() => {
+        setClosed(false);
+        setConnectionId((id) => id + 1);
+    }, []);
+
+    return {
+        status,
+        lastMessage: messages.message ?? null,
+        messages,
+        lastEventId,
+        close,
+        reconnect,
+    };
+}
+
+export function useDelay<T>(value: T, delay: number): T {
+    const [delayedValue, setDelayedValue] = useState(value);
+
+    useEffect(() => {
+        const timeout = setTimeout(() => setDelayedValue(value), delay);
+        return () => clearTimeout(timeout);
+    }, [value, delay]);
+
+    return delayedValue;
+}
+
+export function useVisibilityChange(): boolean {
+    const [isVisible, setIsVisible] = useState(document.visibilityState === 'visible');
+
+    useEffect(() => {
+        const handleVisibilityChange = () => {
+            setIsVisible(document.visibilityState === 'visible');
+        };
+
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }, []);
+
+    return isVisible;
+}
+
+export interface PollingOptions<T = unknown> {
+    pauseWhenHidden?: boolean;
+    pauseWhenOffline?: boolean;
+    refetchOnResume?: boolean;
+    backoffFactor?: number;
+    maxInterval?: number;
+    isEqual?: (previous: T, next: T) => boolean;
+}
+
+export interface UsePollingReturn<T> {
+    poll: () => Promise<T>;
+    isPolling: boolean;
+    currentInterval: number | null;
+    unchangedCount: number;
+}
+
+const isJsonEqual = (previous: unknown, next: unknown): boolean => {
+    try {
+        return JSON.stringify(previous) === JSON.stringify(next);
+    } catch {
+        return false;
+    }
+};
+
+export function usePolling<T>(
+    callback: () => T | Promise<T>,
+    interval: number | null,
+    options: PollingOptions<T> = {}
+): UsePollingReturn<T> {
+    const { pauseWhenHidden = true, pauseWhenOffline = true, refetchOnResume = true } = options;
+    const [isVisible, setIsVisible] = useState(() => !isReady() || document.visibilityState === 'visible');
+    const [isOnline, setIsOnline] = useState(() => !isReady() || navigator.onLine);
+    const isEnabled = interval !== null;
+
+    // Visibility and connectivity are only tracked while polling is enabled, so idle callers add no listeners.
+    useEffect(() => {
+        if (!isEnabled || !isReady()) return;
+
+        const update = () => {
+            setIsVisible(document.visibilityState === 'visible');
+            setIsOnline(navigator.onLine);
+        };
+        update();
+
+        document.addEventListener('visibilitychange', update);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            document.removeEventListener('visibilitychange', update);
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, [isEnabled]);
+
+    const isPolling = interval !== null && (!pauseWhenHidden || isVisible) && (!pauseWhenOffline || isOnline);
+
+    const [unchangedCount, setUnchangedCount] = useState(0);
+    const callbackRef = useRef(callback);
+    callbackRef.current = callback;
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const lastResultRef = useRef<{ value: T } | null>(null);
+    const unchangedCountRef = useRef(0);
+    const wasPollingRef = useRef(isPolling);
+
+    const poll = useCallback(async () => {
+        const result = await callbackRef.current();
+        const { isEqual = isJsonEqual } = optionsRef.current;
+        const previous = lastResultRef.current;
+
+        unchangedCountRef.current = previous && isEqual(previous.value, result) ? unchangedCountRef.current + 1 : 0;
+        lastResultRef.current = { value: result };
+        setUnchangedCount(unchangedCountRef.current);
+        return result;
+    }, []);
+
+    // Each unchanged response in a row stretches the interval by backoffFactor, up to maxInterval.
+    const getInterval = (baseInterval: number): number => {
+        const { backoffFactor = 1, maxInterval = baseInterval * 8 } = optionsRef.current;
+        return Math.min(Math.max(baseInterval, maxInterval), baseInterval * Math.pow(backoffFactor, unchangedCountRef.current));
+    };
+
+    useEffect(() => {
+        if (!isPolling || interval === null) {
+            wasPollingRef.current = false;
+            return;
+        }
+
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout>;
+
+        const schedule = () => {
+            timer = setTimeout(async () => {
+                try {
+                    await poll();
+                } catch {
+                    // A failed poll keeps the schedule running; the caller surfaces its own errors.
+                }
+                if (!cancelled) schedule();
+            }, getInterval(interval));
+        };
+
+        if (refetchOnResume && !wasPollingRef.current) {
+            unchangedCountRef.current = 0;
+            poll().catch(() => undefined);
+        }
+        wasPollingRef.current = true;
+        schedule();
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isPolling, interval, poll]);
+
+    return {
+        poll,
+        isPolling,
+        currentInterval: isPolling && interval !== null ? getInterval(interval) : null,
+        unchangedCount,
+    };
+}
+
+export function useDebouncedValue<T>(value: T, delay: number) {
+    const [debouncedValue, setDebouncedValue] = useState<T>(value);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setDebouncedValue(value), delay);
+        return () => clearTimeout(timer);
+    }, [value, delay]);
+
+    return debouncedValue;
+}
+
+export type Status = 'idle' | 'pending' | 'success' | 'error';
+// The abort signal and the HooksProvider transport are appended after the arguments passed to `execute`.
+export type AsyncFunction<T, Args extends unknown[] = []> = (...args: [...Args, AbortSignal, Transport]) => Promise<T>;
+type ExecuteArgs<Args extends unknown[]> = Args extends [...infer Rest, AbortSignal, Transport]
+    ? Rest
+    : Args extends [...infer Rest, AbortSignal]
+    ? Rest
+    : Args;
+
+export interface UseAsyncOptions<T> {
+    immediate?: boolean;
+    keepPreviousValue?: boolean;
+    onSuccess?: (value: T) => void;
+    onError?: (error: Error) => void;
+}
+
+export interface UseAsyncReturn<T, Args extends unknown[] = []> {
+    execute: (...args: Args) => Promise<T | null>;
+    reset: () => void;
+    status: Status;
+    value: T | null;
+    error: Error | null;
+}
+
+// Only functions without arguments of their own can run immediately.
+export function useAsync<T>(
+    asyncFunction: (signal: AbortSignal, transport: Transport) => Promise<T>,
+    options?: boolean | UseAsyncOptions<T>,
+): UseAsyncReturn<T>;
+export function useAsync<T, Args extends unknown[]>(
+    asyncFunction: (...args: Args) => Promise<T>,
+    options: false | (UseAsyncOptions<T> & { immediate: false }),
+): UseAsyncReturn<T, ExecuteArgs<Args>>;
+export function useAsync<T>(
+    asyncFunction: (...args: any[]) => Promise<T>,
+    options: boolean | UseAsyncOptions<T> = true,
+): UseAsyncReturn<T, unknown[]> {
+    const { immediate = true, ...callbacks } = typeof options === 'boolean' ? { immediate: options } : options;
+
+    const [status, setStatus] = useState<Status>('idle');
+    const [value, setValue] = useState<T | null>(null);
+    const [error, setError] = useState<Error | null>(null);
+
+    const callbacksRef = useRef<Omit<UseAsyncOptions<T>, 'immediate'>>(callbacks);
+    callbacksRef.current = callbacks;
+    const transport = useTransport();
+    const transportRef = useRef(transport);
+    transportRef.current = transport;
+    const controllerRef = useRef<AbortController | null>(null);
+    const mountedRef = useRef(true);
+
+    useEffect(() => {
+        mountedRef.current = true;
+        return () => {
+            mountedRef.current = false;
+            controllerRef.current?.abort();
+        };
+    }, []);
+
+    const execute = useCallback(async (...args: unknown[]) => {
+        // Starting a new call aborts the previous one, so only the latest result reaches state.
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const isCurrent = () => mountedRef.current && controllerRef.current === controller;
+
+        setStatus('pending');
+        if (!callbacksRef.current.keepPreviousValue) setValue(null);
+        setError(null);
+
+        try {
+            const response = await asyncFunction(...args, controller.signal, transportRef.current);
+            if (!isCurrent()) return response;
+
+            setValue(response);
+            setStatus('success');
+            callbacksRef.current.onSuccess?.(response);
+            return response;
+        } catch (err) {
+            if (!isCurrent()) return null;
+
+            const asyncError = err instanceof Error ? err : new Error('Unknown error');
+            setError(asyncError);
+            setStatus('error');
+            callbacksRef.current.onError?.(asyncError);
+            return null;
+        }
+    }, [asyncFunction]);
+
+    const reset = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setStatus('idle');
+        setValue(null);
+        setError(null);
+    }, []);
+
+    useEffect(() => {
+        if (immediate) {
+            execute();
+        }
+    }, [execute, immediate]);
+
+    return { execute, reset, status, value, error };
+}
+
+export interface MutationHelpers {
+    setQueryData: <T>(url: string, updater: T | ((previous: T | null) => T), key?: ReadonlyArray<unknown>) => void;
+}
+
+export type QueryTarget = string | { url: string; key?: ReadonlyArray<unknown> };
+
+export interface UseMutationOptions<TData, TVariables, TContext> {
+    onMutate?: (variables: TVariables, helpers: MutationHelpers) => TContext | Promise<TContext>;
+    onSuccess?: (data: TData, variables: TVariables, context: TContext | undefined) => unknown;
+    onError?: (error: Error, variables: TVariables, context: TContext | undefined) => unknown;
+    onSettled?: (data: TData | null, error: Error | null, variables: TVariables, context: TContext | undefined) => unknown;
+    invalidates?: QueryTarget[];
+}
+
+export interface UseMutationReturn<TData, TVariables> {
+    mutate: (variables: TVariables) => void;
+    mutateAsync: (variables: TVariables) => Promise<TData>;
+    reset: () => void;
+    status: Status;
+    data: TData | null;
+    error: Error | null;
+}
+
+interface QuerySnapshot {
+    hash: string;
+    entry: Pick<QueryEntry, 'data' | 'error' | 'updatedAt' | 'invalidated'> | null;
+}
+
+// Mirrors setQueryData: one snapshot per scoped entry it will touch, or the default-scope entry it will create.
+const takeQuerySnapshots = (url: string, key: ReadonlyArray<unknown> = []): QuerySnapshot[] => {
+    const entries = matchQueryEntries(url, key);
+    if (entries.length === 0) return [{ hash: getQueryHash(url, key), entry: null }];
+
+    return entries.map((entry) => ({
+        hash: entry.hash,
+        entry: { data: entry.data, error: entry.error, updatedAt: entry.updatedAt, invalidated: entry.invalidated },
+    }));
+};
+
+// Puts an entry back exactly as it was, including its age; entries created by onMutate are dropped again.
+const restoreQuerySnapshot = ({ hash, entry: previous }: QuerySnapshot) => {
+    const entry = queryCache.get(hash);
+    if (!entry) return;
+
+    if (!previous && entry.listeners.size === 0) {
+        queryCache.delete(hash);
+        return;
+    }
+
+    entry.data = previous ? previous.data : null;
+    entry.error = previous ? previous.error : null;
+    entry.updatedAt = previous ? previous.updatedAt : 0;
+    entry.invalidated = previous ? previous.invalidated : false;
+    notifyQueryEntry(entry);
+};
+
+export function useMutation<TData, TVariables = void, TContext = unknown>(
+    mutationFn: (variables: TVariables) => Promise<TData>,
+    options: UseMutationOptions<TData, TVariables, TContext> = {}
+): UseMutationReturn<TData, TVariables> {
+    const [status, setStatus] = useState<Status>('idle');
+    const [data, setData] = useState<TData | null>(null);
+    const [error, setError] = useState<Error | null>(null);
+
+    const mutationFnRef = useRef(mutationFn);
+    mutationFnRef.current = mutationFn;
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    const latestMutationRef = useRef(0);
+    const mountedRef = useRef(true);
+
+    useEffect(() => {
+        mountedRef.current = true;
+        return () => {
+            mountedRef.current = false;
+        };
+    }, []);
+
+    const mutateAsync = useCallback(async (variables: TVariables) => {
+        const mutationId = ++latestMutationRef.current;
+        const isLatest = () => mountedRef.current && mutationId === latestMutationRef.current;
+        const { onMutate, onSuccess, onError, onSettled, invalidates = [] } = optionsRef.current;
+
+        // Every cache write made from onMutate is snapshotted so it can be rolled back if the mutation fails.
+        const snapshots: QuerySnapshot[] = [];
+        const helpers: MutationHelpers = {
+            setQueryData: (url, updater, key) => {
+                snapshots.push(...takeQuerySnapshots(url, key));
+                setQueryData(url, updater, key);
+            },
+        };
+
+        if (isLatest()) {
+            setStatus('pending');
+            setError(null);
+        }
+
+        const invalidate = () =>
+            invalidates.forEach((target) =>
+                typeof target === 'string' ? invalidateQueries(target) : invalidateQueries(target.url, target.key)
+            );
+
+        let context: TContext | undefined;
+        let result: TData;
+        try {
+            context = onMutate ? await onMutate(variables, helpers) : undefined;
+            result = await mutationFnRef.current(variables);
+        } catch (err) {
+            const mutationError = err instanceof Error ? err : new Error('Unknown error');
+            snapshots.reverse().forEach(restoreQuerySnapshot);
+
+            if (isLatest()) {
+                setError(mutationError);
+                setStatus('error');
+            }
+            invalidate();
+            await onError?.(mutationError, variables, context);
+            await onSettled?.(null, mutationError, variables, context);
+            throw mutationError;
+        }
+
+        if (isLatest()) {
+            setData(result);
+            setStatus('success');
+        }
+        invalidate();
+
+        // The server has committed by now, so a throwing callback rejects the promise but never rolls back.
+        await onSuccess?.(result, variables, context);
+        await onSettled?.(result, null, variables, context);
+        return result;
+    }, []);
+
+    const mutate = useCallback(
+        (variables: TVariables) => {
+            mutateAsync(variables).catch(() => undefined);
+        },
+        [mutateAsync]
+    );
+
+    const reset = useCallback(() => {
+        latestMutationRef.current++;
+        setStatus('idle');
+        setData(null);
+        setError(null);
+    }, []);
+
+    return { mutate, mutateAsync, reset, status, data, error };
+}
+
+export interface GraphQLError {
+    message: string;
+    path?: ReadonlyArray<string | number>;
+    extensions?: Record<string, unknown>;
+}
+
+export interface GraphQLRequestError extends Error {
+    graphQLErrors: GraphQLError[];
+    data: unknown;
+}
+
+export interface GraphQLRequestOptions {
+    headers?: Record<string, string>;
+    batch?: boolean;
+    batchInterval?: number;
+    persistedQueries?: boolean;
+}
+
+interface GraphQLExecuteOptions extends GraphQLRequestOptions {
+    transport?: Transport;
+}
+
+interface GraphQLResponse<TData = unknown> {
+    data?: TData | null;
+    errors?: GraphQLError[];
+}
+
+interface GraphQLOperation {
+    query?: string;
+    variables?: unknown;
+    operationName?: string;
+    extensions?: Record<string, unknown>;
+}
+
+interface PendingGraphQLOperation {
+    operation: GraphQLOperation;
+    resolve: (response: GraphQLResponse) => void;
+    reject: (error: unknown) => void;
+}
+
+const createGraphQLError = (errors: GraphQLError[], data: unknown): GraphQLRequestError =>
+    Object.assign(new Error(errors.map((error) => error.message).join('\n')), { graphQLErrors: errors, data });
+
+const getOperationName = (document: string): string | undefined =>
+    /(?:query|mutation|subscription)\s+(\w+)/.exec(document)?.[1];
+
+const documentHashes = new Map<string, Promise<string | null>>();
+
+// Resolves to null where SubtleCrypto is unavailable (insecure origins, older runtimes) or hashing fails.
+const getDocumentHash = (document: string): Promise<string | null> => {
+    let hash = documentHashes.get(document);
+    if (!hash) {
+        const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+        hash = subtle
+            ? subtle
+                  .digest('SHA-256', new TextEncoder().encode(document))
+                  .then((buffer) =>
+                      Array.from(new Uint8Array(buffer))
+                          .map((byte) => byte.toString(16).padStart(2, '0'))
+                          .join('')
+                  )
+                  .catch(() => null)
+            : Promise.resolve(null);
+        documentHashes.set(document, hash);
+    }
+    return hash;
+};
+
+const hasGraphQLErrors = (payload: unknown): boolean =>
+    Array.isArray(payload)
+        ? payload.some(hasGraphQLErrors)
+        : !!payload && typeof payload === 'object' && Array.isArray((payload as GraphQLResponse).errors);
+
+const postGraphQL = async (
+    endpoint: string,
+    body: GraphQLOperation | GraphQLOperation[],
+    headers: Record<string, string> = {},
+    transport: Transport = defaultTransport
+): Promise<any> => {
+    const response = await transport(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+        body: JSON.stringify(body),
+    });
+
+    let payload: unknown;
+    try {
+        payload = await response.json();
+    } catch {
+        throw createHttpError(response, `Error: ${response.statusText}`);
+    }
+
+    // GraphQL servers often answer 4xx with a regular `errors` payload, so such a body wins over the status.
+    if (!response.ok && !hasGraphQLErrors(payload)) throw createHttpError(response, `Error: ${response.statusText}`);
+    return payload;
+};
+
+const graphQLBatches = new Map<string, { operations: PendingGraphQLOperation[]; timer: ReturnType<typeof setTimeout> }>();
+
+const enqueueGraphQLOperation = (
+    endpoint: string,
+    operation: GraphQLOperation,
+    headers: Record<string, string> = {},
+    batchInterval: number = 10,
+    transport: Transport = defaultTransport
+): Promise<GraphQLResponse> =>
+    new Promise((resolve, reject) => {
+        const batchKey = JSON.stringify([endpoint, headers]);
+        let batch = graphQLBatches.get(batchKey);
+
+        if (!batch) {
+            const operations: PendingGraphQLOperation[] = [];
+            batch = {
+                operations,
+                timer: setTimeout(() => {
+                    graphQLBatches.delete(batchKey);
+                    postGraphQL(endpoint, operations.map((pending) => pending.operation), headers, transport).then(
+                        (results) => {
+                            if (!Array.isArray(results)) {
+                                const error = new Error('Expected a batched GraphQL response');
+                                operations.forEach((pending) => pending.reject(error));
+                                return;
+                            }
+                            operations.forEach((pending, index) =>
+                                results[index]
+                                    ? pending.resolve(results[index])
+                                    : pending.reject(new Error(`Missing result for batched GraphQL operation ${index}`))
+                            );
+                        },
+                        (error) => operations.forEach((pending) => pending.reject(error))
+                    );
+                }, batchInterval),
+            };
+            graphQLBatches.set(batchKey, batch);
+        }
+
+        batch.operations.push({ operation, resolve, reject });
+    });
+
+const sendGraphQLOperation = (
+    endpoint: string,
+    operation: GraphQLOperation,
+    options: GraphQLExecuteOptions
+): Promise<GraphQLResponse> =>
+    options.batch
+        ? enqueueGraphQLOperation(endpoint, operation, options.headers, options.batchInterval, options.transport)
+        : postGraphQL(endpoint, operation, options.headers, options.transport);
+
+const isPersistedQueryMiss = (response: GraphQLResponse): boolean =>
+    !!response.errors?.some(
+        (error) => error.message === 'PersistedQueryNotFound' || error.extensions?.code === 'PERSISTED_QUERY_NOT_FOUND'
+    );
+
+const executeGraphQL = async <TData>(
+    endpoint: string,
+    document: string,
+    variables: unknown,
+    options: GraphQLExecuteOptions = {}
+): Promise<TData> => {
+    const operationName = getOperationName(document);
+    let response: GraphQLResponse;
+
+    // Automatic persisted queries: send only the hash first and fall back to the full document on a miss.
+    const sha256Hash = options.persistedQueries ? await getDocumentHash(document) : null;
+    if (sha256Hash) {
+        const extensions = { persistedQuery: { version: 1, sha256Hash } };
+        response = await sendGraphQLOperation(endpoint, { variables, operationName, extensions }, options);
+        if (isPersistedQueryMiss(response)) {
+            response = await sendGraphQLOperation(endpoint, { query: document, variables, operationName, extensions }, options);
+        }
+    } else {
+        response = await sendGraphQLOperation(endpoint, { query: document, variables, operationName }, options);
+    }
+
+    if (!response || typeof response !== 'object' || (!('data' in response) && !response.errors)) {
+        throw new Error('Invalid GraphQL response: expected `data` or `errors`');
+    }
+    if (response.errors && response.errors.length > 0) throw createGraphQLError(response.errors, response.data);
+    return response.data as TData;
+};
+
+export interface GraphQLQueryOptions extends QueryOptions, GraphQLRequestOptions {}
+
+export function useGraphQLQuery<TData, TVariables = Record<string, unknown>>(
+    endpoint: string,
+    document: string,
+    variables?: TVariables,
+    options: GraphQLQueryOptions = {}
+): QueryState<TData> {
+    const { headers, batch, batchInterval, persistedQueries, key = [], ...queryOptions } = options;
+    const transport = useTransport();
+
+    return useQuery<TData>(
+        endpoint,
+        () =>
+            executeGraphQL<TData>(endpoint, document, variables, {
+                headers,
+                batch,
+                batchInterval,
+                persistedQueries,
+                transport,
+            }),
+        { ...queryOptions, key: [document, variables ?? null, ...key] },
+        useQueryScope()
+    );
+}
+
+export interface GraphQLMutationOptions<TData, TVariables, TContext>
+    extends UseMutationOptions<TData, TVariables, TContext>,
+        GraphQLRequestOptions {}
+
+export function useGraphQLMutation<TData, TVariables = Record<string, unknown>, TContext = unknown>(
+    endpoint: string,
+    document: string,
+    options: GraphQLMutationOptions<TData, TVariables, TContext> = {}
+): UseMutationReturn<TData, TVariables> {
+    const { headers, batch, batchInterval, persistedQueries, ...mutationOptions } = options;
+    const transport = useTransport();
+
+    return useMutation<TData, TVariables, TContext>(
+        (variables) =>
+            executeGraphQL<TData>(endpoint, document, variables, {
+                headers,
+                batch,
+                batchInterval,
+                persistedQueries,
+                transport,
+            }),
+        mutationOptions
+    );
+}
+
+export type ScriptStatus = 'loading' | 'ready' | 'error' | 'unknown';
+
+const cachedScriptStatuses: Record<string, ScriptStatus> = {};
+
+export function useScript(src: string, removeOnUnmount: boolean = false): ScriptStatus {
+    const isScriptExisting = document.querySelector(`script[src="${src}"]`);
+    const cachedStatus = cachedScriptStatuses[src];
+
+    const [status, setStatus] = useState<ScriptStatus>(
+        cachedStatus || (isScriptExisting ? 'ready' : 'loading'),
+    );
+
+    useEffect(() => {
+        if (typeof window === 'undefined' || isScriptExisting) {
+            return;
+        }
+
+        const script = document.createElement('script');
+        script.src = src;
+        script.async = true;
+
+        const handleLoad = () => {
+            setStatus('ready');
+            cachedScriptStatuses[src] = 'ready';
+        };
+        const handleError = () => {
+            setStatus('error');
+            cachedScriptStatuses[src] = 'error';
+        };
+
+        script.addEventListener('load', handleLoad);
+        script.addEventListener('error', handleError);
+
+        document.body.appendChild(script);
+
+        return () => {
+            script.removeEventListener('load', handleLoad);
+            script.removeEventListener('error', handleError);
+
+            if (removeOnUnmount) {
+                document.body.removeChild(script);
+            }
+        };
+    }, [src, removeOnUnmount]);
+
+    return status;
+}
+
+const promisifyRequest = <T>(request: IDBRequest<T>, message: string = 'IndexedDB request failed'): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error || new Error(message));
+    });
+
+const openIndexedDB = (
+    dbName: string,
+    version?: number,
+    onUpgrade?: (db: IDBDatabase, transaction: IDBTransaction, event: IDBVersionChangeEvent) => void
+): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = version ? indexedDB.open(dbName, version) : indexedDB.open(dbName);
+        request.onupgradeneeded = (event) => onUpgrade?.(request.result, request.transaction as IDBTransaction, event);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new Error('Failed to open IndexedDB'));
+    });
+
+// Opens the database at its current version, bumping the version once if the store still has to be created.
+const openObjectStore = async (
+    dbName: string,
+    storeName: string,
+    storeOptions: IDBObjectStoreParameters = {}
+): Promise<IDBDatabase> => {
+    const db = await openIndexedDB(dbName);
+    if (db.objectStoreNames.contains(storeName)) return db;
+
+    const version = db.version + 1;
+    db.close();
+    return openIndexedDB(dbName, version, (upgradeDb) => {
+        if (!upgradeDb.objectStoreNames.contains(storeName)) upgradeDb.createObjectStore(storeName, storeOptions);
+    });
+};
+
+export interface IndexedDBIndexSchema {
+    name: string;
+    keyPath: string | string[];
+    unique?: boolean;
+    multiEntry?: boolean;
+}
+
+export interface IndexedDBStoreSchema {
+    name: string;
+    keyPath?: string | string[];
+    autoIncrement?: boolean;
+    indexes?: IndexedDBIndexSchema[];
+}
+
+export interface IndexedDBSchema {
+    version: number;
+    stores: IndexedDBStoreSchema[];
+    migrate?: (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, newVersion: number) => void;
+}
+
+export interface IndexedDBQuery {
+    index?: string;
+    range?: IDBKeyRange | IDBValidKey;
+    direction?: IDBCursorDirection;
+    offset?: number;
+    limit?: number;
+}
+
+export interface IndexedDBOptions {
+    schema?: IndexedDBSchema;
+    query?: IndexedDBQuery;
+}
+
+export interface UseIndexedDBReturn<T> {
+    data: T[] | null;
+    error: Error | null;
+    loading: boolean;
+    add: (value: T, key?: IDBValidKey) => Promise<IDBValidKey>;
+    put: (value: T, key?: IDBValidKey) => Promise<IDBValidKey>;
+    get: (key: IDBValidKey) => Promise<T | undefined>;
+    delete: (key: IDBValidKey | IDBKeyRange) => Promise<void>;
+    clear: () => Promise<void>;
+    query: (query?: IndexedDBQuery) => Promise<T[]>;
+    count: (query?: Pick<IndexedDBQuery, 'index' | 'range'>) => Promise<number>;
+    refresh: () => Promise<void>;
+}
+
+const indexedDBSubscribers = new Map<string, Set<() => void>>();
+
+const subscribeIndexedDB = (storeKey: string, listener: () => void) => {
+    if (!indexedDBSubscribers.has(storeKey)) indexedDBSubscribers.set(storeKey, new Set());
+    const subscribers = indexedDBSubscribers.get(storeKey)!;
+    subscribers.add(listener);
+
+    return () => {
+        subscribers.delete(listener);
+    };
+};
+
+const notifyIndexedDBSubscribers = (storeKey: string) => {
+    indexedDBSubscribers.get(storeKey)?.forEach((listener) => listener());
+};
+
+const applyIndexedDBSchema = (db: IDBDatabase, transaction: IDBTransaction, schema: IndexedDBSchema) => {
+    schema.stores.forEach(({ name, keyPath, autoIncrement, indexes = [] }) => {
+        const store = db.objectStoreNames.contains(name)
+            ? transaction.objectStore(name)
+            : db.createObjectStore(name, { keyPath, autoIncrement });
+
+        indexes.forEach((index) => {
+            if (!store.indexNames.contains(index.name)) {
+                store.createIndex(index.name, index.keyPath, { unique: index.unique, multiEntry: index.multiEntry });
+            }
+        });
+    });
+};
+
+const queryIndexedDB = <T>(store: IDBObjectStore, { index, range, direction = 'next', offset = 0, limit }: IndexedDBQuery = {}) =>
+    new Promise<T[]>((resolve, reject) => {
+        const source = index ? store.index(index) : store;
+        const request = source.openCursor(range ?? null, direction);
+        const results: T[] = [];
+        let skipped = offset === 0;
+
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || (limit !== undefined && results.length >= limit)) {
+                resolve(results);
+                return;
+            }
+            if (!skipped) {
+                skipped = true;
+                cursor.advance(offset);
+                return;
+            }
+            results.push(cursor.value);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error || new Error('Failed to query IndexedDB'));
+    });
+
+const getQueryKey = ({ index, range, direction, offset, limit }: IndexedDBQuery = {}): string =>
+    JSON.stringify([
+        index,
+        range instanceof IDBKeyRange ? [range.lower, range.upper, range.lowerOpen, range.upperOpen] : range,
+        direction,
+        offset,
+        limit,
+    ]);
+
+export function useIndexedDB<T>(dbName: string, storeName: string, options: IndexedDBOptions = {}): UseIndexedDBReturn<T> {
+    const { schema, query } = options;
+    const [data, setData] = useState<T[] | null>(null);
+    const [error, setError] = useState<Error | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    const storeKey = `${dbName}/${storeName}`;
+    const schemaRef = useRef(schema);
+    schemaRef.current = schema;
+    const queryRef = useRef(query);
+    queryRef.current = query;
+    const dbPromiseRef = useRef<Promise<IDBDatabase> | null>(null);
+    const schemaVersion = schema?.version;
+    const queryKey = typeof IDBKeyRange === 'undefined' ? '' : getQueryKey(query);
+
+    const getDb = useCallback((): Promise<IDBDatabase> => {
+        if (!dbPromiseRef.current) {
+            const currentSchema = schemaRef.current;
+            dbPromiseRef.current = (currentSchema
+                ? openIndexedDB(dbName, currentSchema.version, (db, transaction, event) => {
+                      applyIndexedDBSchema(db, transaction, currentSchema);
+                      currentSchema.migrate?.(db, transaction, event.oldVersion, event.newVersion ?? currentSchema.version);
+                  })
+                : openIndexedDB(dbName)
+            ).then((db) => {
+                // Let upgrades from other tabs proceed instead of blocking on this connection.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromiseRef.current = null;
+                };
+                return db;
+            });
+            dbPromiseRef.current.catch(() => {
+                dbPromiseRef.current = null;
+            });
+        }
+        return dbPromiseRef.current;
+    }, [dbName, schemaVersion]);
+
+    useEffect(() => {
+        return () => {
+            dbPromiseRef.current?.then((db) => db.close()).catch(() => undefined);
+            dbPromiseRef.current = null;
+        };
+    }, [getDb]);
+
+    const withStore = useCallback(
+        async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<R> | IDBRequest<R>): Promise<R> => {
+            const db = await getDb();
+            const store = db.transaction(storeName, mode).objectStore(storeName);
+            const pending = run(store);
+            const result = pending instanceof IDBRequest ? await promisifyRequest(pending) : await pending;
+
+            if (mode === 'readwrite') notifyIndexedDBSubscribers(storeKey);
+            return result;
+        },
+        [getDb, storeName, storeKey]
+    );
 
-    return scrollDirection;
-}
+    const runQuery = useCallback(
+        (nextQuery?: IndexedDBQuery) => withStore('readonly', (store) => queryIndexedDB<T>(store, nextQuery)),
+        [withStore]
+    );
 
-export function useImageLoader(src: string): { loaded: boolean; error: boolean } {
-    const [loaded, setLoaded] = useState(false);
-    const [error, setError] = useState(false);
+    const refresh = useCallback(async () => {
+        try {
+            setData(await runQuery(queryRef.current));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error('Failed to fetch data from IndexedDB'));
+        } finally {
+            setLoading(false);
+        }
+    }, [runQuery]);
 
+    // Every write through any instance re-runs the live query of all instances watching the same store.
     useEffect(() => {
-        const img = new Image();
-        img.src = src;
-
-        const handleLoad = () => setLoaded(true);
-        const handleError = () => setError(true);
+        if (typeof indexedDB === 'undefined') {
+            setError(new Error('IndexedDB not supported'));
+            setLoading(false);
+            return;
+        }
 
-        img.addEventListener('load', handleLoad);
-        img.addEventListener('error', handleError);
+        refresh();
+        return subscribeIndexedDB(storeKey, refresh);
+    }, [storeKey, refresh, queryKey]);
 
-        return () => {
-            img.removeEventListener('load', handleLoad);
-            img.removeEventListener('error', handleError);
-        };
-    }, [src]);
+    const add = useCallback((value: T, key?: IDBValidKey) => withStore('readwrite', (store) => store.add(value, key)), [withStore]);
+    const put = useCallback((value: T, key?: IDBValidKey) => withStore('readwrite', (store) => store.put(value, key)), [withStore]);
+    const get = useCallback(
+        (key: IDBValidKey) => withStore('readonly', (store) => store.get(key) as IDBRequest<T | undefined>),
+        [withStore]
+    );
+    const deleteRecord = useCallback(
+        (key: IDBValidKey | IDBKeyRange) => withStore('readwrite', (store) => store.delete(key)),
+        [withStore]
+    );
+    const clear = useCallback(() => withStore('readwrite', (store) => store.clear()), [withStore]);
+    const count = useCallback(
+        ({ index, range }: Pick<IndexedDBQuery, 'index' | 'range'> = {}) =>
+            withStore('readonly', (store) => (index ? store.index(index) : store).count(range)),
+        [withStore]
+    );
 
-    return { loaded, error };
+    return {
+        data,
+        error,
+        loading,
+        add,
+        put,
+        get,
+        delete: deleteRecord,
+        clear,
+        query: runQuery,
+        count,
+        refresh,
+    };
 }
 
+export type OfflineMutationStatus = 'pending' | 'conflict' | 'failed';
 
-export function usePersistedState<T>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
-    const [state, setState] = useState<T>(() => {
-        const saved = localStorage.getItem(key);
-        return saved ? JSON.parse(saved) : initialValue;
-    });
-
-    useEffect(() => {
-        localStorage.setItem(key, JSON.stringify(state));
-    }, [key, state]);
+export interface OfflineMutation<TPayload = unknown> {
+    id: number;
+    type: string;
+    payload: TPayload;
+    status: OfflineMutationStatus;
+    attempts: number;
+    lastError: string | null;
+    createdAt: number;
+}
 
-    return [state, setState];
+export interface OfflineQueueOptions {
+    dbName?: string;
+    storeName?: string;
+    maxAttempts?: number;
+    isConflict?: (error: unknown) => boolean;
+    isPermanentFailure?: (error: unknown) => boolean;
 }
 
-export function useReducedMotion(): boolean {
-    const [reducedMotion, setReducedMotion] = useState(false);
+export interface UseOfflineQueueReturn<TPayload> {
+    queue: OfflineMutation<TPayload>[];
+    pending: OfflineMutation<TPayload>[];
+    failed: OfflineMutation<TPayload>[];
+    isReplaying: boolean;
+    progress: { completed: number; total: number };
+    error: Error | null;
+    enqueue: (type: string, payload: TPayload) => Promise<void>;
+    replay: () => Promise<void>;
+    retry: (id: number) => Promise<void>;
+    discard: (id: number) => Promise<void>;
+}
 
-    useEffect(() => {
-        const mediaQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
-        setReducedMotion(mediaQuery.matches);
+const replayingOfflineQueues = new Set<string>();
+// Queues that gained rows while a replay was running; the running replay picks them up before it finishes.
+const dirtyOfflineQueues = new Set<string>();
 
-        const handleChange = (e: MediaQueryListEvent) => setReducedMotion(e.matches);
-        mediaQuery.addEventListener('change', handleChange);
+const defaultIsConflict = (error: unknown): boolean => (error as Partial<HttpError> | null)?.status === 409;
 
-        return () => {
-            mediaQuery.removeEventListener('change', handleChange);
-        };
-    }, []);
+const defaultIsPermanentFailure = (error: unknown): boolean => {
+    const status = (error as Partial<HttpError> | null)?.status;
+    return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+};
 
-    return reducedMotion;
-}
+export function useOfflineQueue<TPayload = unknown>(
+    send: (mutation: OfflineMutation<TPayload>) => Promise<unknown>,
+    options: OfflineQueueOptions = {}
+): UseOfflineQueueReturn<TPayload> {
+    const { dbName = 'react-advance-hooks', storeName = 'offline-queue', maxAttempts = 5 } = options;
+    const queueKey = `${dbName}/${storeName}`;
+    const isOnline = useOnlineStatus();
+
+    const [queue, setQueue] = useState<OfflineMutation<TPayload>[]>([]);
+    const [isReplaying, setIsReplaying] = useState(false);
+    const [progress, setProgress] = useState({ completed: 0, total: 0 });
+    const [error, setError] = useState<Error | null>(null);
 
-export function useCookie(key: string): [string | null, (value: string, options?: any) => void, () => void] {
-    const [cookie, setCookieState] = useState(() => document.cookie.split('; ').find((row) => row.startsWith(key))?.split('=')[1] || null);
+    const sendRef = useRef(send);
+    sendRef.current = send;
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const retryTimerRef = useRef<ReturnType<typeof setTimeout>>();
 
-    const setCookie = (value: string, options: Record<string, any> = {}) => {
-        const optionsString = Object.entries(options)
-            .map(([k, v]) => `${k}=${v}`)
-            .join('; ');
-        document.cookie = `${key}=${value}; ${optionsString}`;
-        setCookieState(value);
-    };
+    const withStore = useCallback(
+        async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+            const db = await openObjectStore(dbName, storeName, { keyPath: 'id', autoIncrement: true });
+            try {
+                return await promisifyRequest(run(db.transaction(storeName, mode).objectStore(storeName)));
+            } finally {
+                db.close();
+            }
+        },
+        [dbName, storeName]
+    );
 
-    const deleteCookie = () => {
-        document.cookie = `${key}=; Max-Age=0`;
-        setCookieState(null);
-    };
+    const load = useCallback(async () => {
+        try {
+            const items = await withStore('readonly', (store) => store.getAll());
+            setQueue((items as OfflineMutation<TPayload>[]).sort((a, b) => a.id - b.id));
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error('Failed to read offline queue'));
+        }
+    }, [withStore]);
 
-    return [cookie, setCookie, deleteCookie];
-}
+    useEffect(() => {
+        load();
 
-export function useFetchRetry<T>(url: string, options: RequestInit, retries: number = 3): { data: T | null; error: string | null; loading: boolean } {
-    const [state, setState] = useState<{ data: T | null; error: string | null; loading: boolean }>({
-        data: null,
-        error: null,
-        loading: true,
-    });
+        const unsubscribe = subscribeIndexedDB(queueKey, load);
 
-    useEffect(() => {
-        const fetchData = async () => {
-            let attempts = 0;
-            while (attempts < retries) {
-                try {
-                    const response = await fetch(url, options);
-                    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-                    const data: T = await response.json();
-                    setState({ data, error: null, loading: false });
-                    return;
-                } catch (error) {
-                    attempts++;
-                    if (attempts >= retries) {
-                        setState({ data: null, error: (error as Error).message, loading: false });
-                    }
-                }
-            }
+        return () => {
+            unsubscribe();
+            clearTimeout(retryTimerRef.current);
         };
+    }, [queueKey, load]);
 
-        fetchData();
-    }, [url, options, retries]);
+    // Mutations replay strictly in insertion order: a transient failure stops the run so later writes never overtake it.
+    const replay = useCallback(async () => {
+        if (!navigator.onLine) return;
+        if (replayingOfflineQueues.has(queueKey)) {
+            dirtyOfflineQueues.add(queueKey);
+            return;
+        }
 
-    return state;
-}
+        replayingOfflineQueues.add(queueKey);
+        setIsReplaying(true);
+        setError(null);
+        clearTimeout(retryTimerRef.current);
 
-export function useDelay<T>(value: T, delay: number): T {
-    const [delayedValue, setDelayedValue] = useState(value);
+        try {
+            let stalled = false;
+            do {
+                dirtyOfflineQueues.delete(queueKey);
+                const items = ((await withStore('readonly', (store) => store.getAll())) as OfflineMutation<TPayload>[])
+                    .filter((item) => item.status === 'pending')
+                    .sort((a, b) => a.id - b.id);
+                setProgress({ completed: 0, total: items.length });
+
+                for (let i = 0; i < items.length; i++) {
+                    const mutation = items[i];
+                    try {
+                        await sendRef.current(mutation);
+                        await withStore('readwrite', (store) => store.delete(mutation.id));
+                        setProgress({ completed: i + 1, total: items.length });
+                        notifyIndexedDBSubscribers(queueKey);
+                    } catch (err) {
+                        const {
+                            isConflict = defaultIsConflict,
+                            isPermanentFailure = defaultIsPermanentFailure,
+                        } = optionsRef.current;
+                        const attempts = mutation.attempts + 1;
+                        const status: OfflineMutationStatus = isConflict(err)
+                            ? 'conflict'
+                            : isPermanentFailure(err) || attempts >= maxAttempts
+                            ? 'failed'
+                            : 'pending';
+                        const updated: OfflineMutation<TPayload> = {
+                            ...mutation,
+                            status,
+                            attempts,
+                            lastError: err instanceof Error ? err.message : String(err),
+                        };
+
+                        await withStore('readwrite', (store) => store.put(updated));
+                        notifyIndexedDBSubscribers(queueKey);
+
+                        if (status === 'pending') {
+                            retryTimerRef.current = setTimeout(() => replay(), getBackoffDelay(attempts));
+                            stalled = true;
+                            break;
+                        }
+                    }
+                }
+            } while (!stalled && dirtyOfflineQueues.has(queueKey));
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error('Failed to replay offline queue'));
+        } finally {
+            replayingOfflineQueues.delete(queueKey);
+            setIsReplaying(false);
+        }
+    }, [queueKey, withStore, maxAttempts]);
 
     useEffect(() => {
-        const timeout = setTimeout(() => setDelayedValue(value), delay);
-        return () => clearTimeout(timeout);
-    }, [value, delay]);
+        if (isOnline) replay();
+    }, [isOnline, replay]);
+
+    const enqueue = useCallback(
+        async (type: string, payload: TPayload) => {
+            const mutation: Omit<OfflineMutation<TPayload>, 'id'> = {
+                type,
+                payload,
+                status: 'pending',
+                attempts: 0,
+                lastError: null,
+                createdAt: Date.now(),
+            };
 
-    return delayedValue;
-}
+            await withStore('readwrite', (store) => store.add(mutation));
+            notifyIndexedDBSubscribers(queueKey);
+            if (navigator.onLine) await replay();
+        },
+        [queueKey, withStore, replay]
+    );
 
-export function useVisibilityChange(): boolean {
-    const [isVisible, setIsVisible] = useState(document.visibilityState === 'visible');
+    const retry = useCallback(
+        async (id: number) => {
+            const mutation = (await withStore('readonly', (store) => store.get(id))) as OfflineMutation<TPayload> | undefined;
+            if (!mutation) return;
 
-    useEffect(() => {
-        const handleVisibilityChange = () => {
-            setIsVisible(document.visibilityState === 'visible');
-        };
+            await withStore('readwrite', (store) => store.put({ ...mutation, status: 'pending', attempts: 0 }));
+            notifyIndexedDBSubscribers(queueKey);
+            await replay();
+        },
+        [queueKey, withStore, replay]
+    );
 
-        document.addEventListener('visibilitychange', handleVisibilityChange);
-        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-    }, []);
+    const discard = useCallback(
+        async (id: number) => {
+            await withStore('readwrite', (store) => store.delete(id));
+            notifyIndexedDBSubscribers(queueKey);
+        },
+        [queueKey, withStore]
+    );
 
-    return isVisible;
+    return {
+        queue,
+        pending: queue.filter((item) => item.status === 'pending'),
+        failed: queue.filter((item) => item.status !== 'pending'),
+        isReplaying,
+        progress,
+        error,
+        enqueue,
+        replay,
+        retry,
+        discard,
+    };
 }
 
-export function useDebouncedValue<T>(value: T, delay: number) {
-    const [debouncedValue, setDebouncedValue] = useState<T>(value);
+export type UploadStatus = 'queued' | 'uploading' | 'success' | 'error' | 'cancelled';
 
-    useEffect(() => {
-        const timer = setTimeout(() => setDebouncedValue(value), delay);
-        return () => clearTimeout(timer);
-    }, [value, delay]);
+export interface UploadItem {
+    id: string;
+    name: string;
+    size: number;
+    loaded: number;
+    percent: number;
+    speed: number;
+    status: UploadStatus;
+    error: string | null;
+    response: unknown;
+}
 
-    return debouncedValue;
+export interface UploadRecord {
+    id: string;
+    name: string;
+    size: number;
+    chunkSize: number;
+    uploadedChunks: number[];
+    updatedAt: number;
 }
 
-export type Status = 'idle' | 'pending' | 'success' | 'error';
-export type AsyncFunction<T> = () => Promise<T>;
+export interface UploadOptions {
+    url: string;
+    method?: 'POST' | 'PUT' | 'PATCH';
+    fieldName?: string;
+    headers?: Record<string, string>;
+    instance?: AxiosInstance;
+    chunkSize?: number;
+    concurrency?: number;
+    maxConcurrentFiles?: number;
+    chunkRetries?: number;
+    persist?: boolean;
+    dbName?: string;
+    storeName?: string;
+}
 
-export interface UseAsyncReturn<T> {
-    execute: () => void;
-    status: Status;
-    value: T | null;
-    error: Error | null;
+export interface UseUploadReturn {
+    uploads: UploadItem[];
+    resumable: UploadRecord[];
+    totalPercent: number;
+    upload: (files: File[] | FileList) => string[];
+    cancel: (id: string) => void;
+    retry: (id: string, file?: File) => void;
+    remove: (id: string) => void;
 }
 
-export function useAsync<T>(
-    asyncFunction: AsyncFunction<T>,
-    immediate: boolean = true,
-): UseAsyncReturn<T> {
-    const [status, setStatus] = useState<Status>('idle');
-    const [value, setValue] = useState<T | null>(null);
-    const [error, setError] = useState<Error | null>(null);
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
 
-    const execute = useCallback(async () => {
-        setStatus('pending');
-        setValue(null);
-        setError(null);
+// A file picked again after a reload maps to the same id, which is what lets a persisted upload resume.
+const getFileFingerprint = (file: File): string => `${file.name}-${file.size}-${file.lastModified}`;
 
-        try {
-            const response = await asyncFunction();
-            setValue(response);
-            setStatus('success');
-        } catch (err) {
-            setError(err instanceof Error ? err : new Error('Unknown error'));
-            setStatus('error');
+const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> => {
+    let index = 0;
+    const next = async () => {
+        while (index < items.length) {
+            await worker(items[index++]);
         }
-    }, [asyncFunction]);
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, next));
+};
+
+export function useUpload(options: UploadOptions): UseUploadReturn {
+    const { dbName = 'react-advance-hooks', storeName = 'uploads' } = options;
+    const [uploads, setUploads] = useState<UploadItem[]>([]);
+    const [resumable, setResumable] = useState<UploadRecord[]>([]);
+    const hooksConfig = useStableHooksConfig();
+    const defaultInstance = useMemo(() => createConfiguredAxios(hooksConfig), [hooksConfig]);
+    const defaultInstanceRef = useRef(defaultInstance);
+    defaultInstanceRef.current = defaultInstance;
+
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const filesRef = useRef(new Map<string, File>());
+    const controllersRef = useRef(new Map<string, AbortController>());
+    const queueRef = useRef<string[]>([]);
+    const activeRef = useRef(new Set<string>());
+
+    const withRecords = useCallback(
+        async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+            const db = await openObjectStore(dbName, storeName, { keyPath: 'id' });
+            try {
+                return await promisifyRequest(run(db.transaction(storeName, mode).objectStore(storeName)));
+            } finally {
+                db.close();
+            }
+        },
+        [dbName, storeName]
+    );
 
     useEffect(() => {
-        if (immediate) {
-            execute();
-        }
-    }, [execute, immediate]);
+        if (options.persist === false || typeof indexedDB === 'undefined') return;
 
-    return { execute, status, value, error };
-}
+        withRecords('readonly', (store) => store.getAll())
+            .then((records) => setResumable(records as UploadRecord[]))
+            .catch(() => undefined);
+    }, [withRecords, options.persist]);
 
-export type ScriptStatus = 'loading' | 'ready' | 'error' | 'unknown';
+    useEffect(() => {
+        const controllers = controllersRef.current;
+        return () => controllers.forEach((controller) => controller.abort());
+    }, []);
 
-const cachedScriptStatuses: Record<string, ScriptStatus> = {};
+    const updateItem = (id: string, patch: Partial<UploadItem>) => {
+        setUploads((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+    };
 
-export function useScript(src: string, removeOnUnmount: boolean = false): ScriptStatus {
-    const isScriptExisting = document.querySelector(`script[src="${src}"]`);
-    const cachedStatus = cachedScriptStatuses[src];
+    const sendFile = async (id: string, file: File, signal: AbortSignal): Promise<unknown> => {
+        const {
+            url,
+            method = 'POST',
+            fieldName = 'file',
+            headers = {},
+            instance = defaultInstanceRef.current,
+            chunkSize = DEFAULT_CHUNK_SIZE,
+            concurrency = 3,
+            chunkRetries = 3,
+            persist = true,
+        } = optionsRef.current;
+
+        let lastSample = { time: Date.now(), loaded: 0 };
+        let speed = 0;
+        const report = (loaded: number) => {
+            const now = Date.now();
+            const elapsed = now - lastSample.time;
+            if (elapsed >= 250) {
+                const current = ((loaded - lastSample.loaded) / elapsed) * 1000;
+                speed = speed ? speed * 0.7 + current * 0.3 : current;
+                lastSample = { time: now, loaded };
+            }
+            updateItem(id, { loaded, percent: file.size ? Math.round((loaded / file.size) * 100) : 100, speed });
+        };
 
-    const [status, setStatus] = useState<ScriptStatus>(
-        cachedStatus || (isScriptExisting ? 'ready' : 'loading'),
-    );
+        if (file.size <= chunkSize) {
+            const form = new FormData();
+            form.append(fieldName, file, file.name);
+            const response = await instance.request({
+                url,
+                method,
+                data: form,
+                headers,
+                signal,
+                onUploadProgress: (event) => report(event.loaded),
+            });
+            report(file.size);
+            return response.data;
+        }
 
-    useEffect(() => {
-        if (typeof window === 'undefined' || isScriptExisting) {
-            return;
+        const totalChunks = Math.ceil(file.size / chunkSize);
+        const record = persist
+            ? ((await withRecords('readonly', (store) => store.get(id)).catch(() => undefined)) as UploadRecord | undefined)
+            : undefined;
+        const uploadedChunks = new Set(record && record.chunkSize === chunkSize ? record.uploadedChunks : []);
+        const inFlight = new Map<number, number>();
+        const chunkBytes = (index: number) => Math.min(file.size, (index + 1) * chunkSize) - index * chunkSize;
+
+        let uploadedBytes = 0;
+        uploadedChunks.forEach((index) => {
+            uploadedBytes += chunkBytes(index);
+        });
+        const reportChunks = () => {
+            let inFlightBytes = 0;
+            inFlight.forEach((loaded) => {
+                inFlightBytes += loaded;
+            });
+            report(uploadedBytes + inFlightBytes);
+        };
+        reportChunks();
+
+        const pendingChunks: number[] = [];
+        for (let index = 0; index < totalChunks; index++) {
+            if (!uploadedChunks.has(index)) pendingChunks.push(index);
         }
 
-        const script = document.createElement('script');
-        script.src = src;
-        script.async = true;
+        // The request that completes the set carries the server's response for the whole file.
+        let finalResponse: unknown = null;
+        await runWithConcurrency(pendingChunks, concurrency, async (index) => {
+            const start = index * chunkSize;
+            const end = start + chunkBytes(index);
+            const form = new FormData();
+            form.append(fieldName, file.slice(start, end), file.name);
+            form.append('uploadId', id);
+            form.append('chunkIndex', String(index));
+            form.append('totalChunks', String(totalChunks));
+            form.append('fileName', file.name);
+
+            let chunkResponse: AxiosResponse | undefined;
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    chunkResponse = await instance.request({
+                        url,
+                        method,
+                        data: form,
+                        headers: { ...headers, 'Content-Range': `bytes ${start}-${end - 1}/${file.size}` },
+                        signal,
+                        onUploadProgress: (event) => {
+                            inFlight.set(index, event.loaded);
+                            reportChunks();
+                        },
+                    });
+                    break;
+                } catch (err) {
+                    inFlight.delete(index);
+                    if (signal.aborted || attempt >= chunkRetries) throw err;
+                    await sleep(getBackoffDelay(attempt + 1), signal);
+                }
+            }
 
-        const handleLoad = () => {
-            setStatus('ready');
-            cachedScriptStatuses[src] = 'ready';
-        };
-        const handleError = () => {
-            setStatus('error');
-            cachedScriptStatuses[src] = 'error';
-        };
+            inFlight.delete(index);
+            uploadedChunks.add(index);
+            uploadedBytes += end - start;
+            reportChunks();
+            if (uploadedChunks.size === totalChunks) finalResponse = chunkResponse?.data ?? null;
+
+            if (persist) {
+                const next: UploadRecord = {
+                    id,
+                    name: file.name,
+                    size: file.size,
+                    chunkSize,
+                    uploadedChunks: Array.from(uploadedChunks),
+                    updatedAt: Date.now(),
+                };
+                await withRecords('readwrite', (store) => store.put(next))
+                    .then(() => setResumable((prev) => [...prev.filter((item) => item.id !== id), next]))
+                    .catch(() => undefined);
+            }
+        });
 
-        script.addEventListener('load', handleLoad);
-        script.addEventListener('error', handleError);
+        if (persist) {
+            await withRecords('readwrite', (store) => store.delete(id)).catch(() => undefined);
+            setResumable((prev) => prev.filter((item) => item.id !== id));
+        }
+        return finalResponse;
+    };
 
-        document.body.appendChild(script);
+    const pump = () => {
+        const { maxConcurrentFiles = 3 } = optionsRef.current;
+
+        while (activeRef.current.size < maxConcurrentFiles && queueRef.current.length > 0) {
+            const id = queueRef.current.shift() as string;
+            const file = filesRef.current.get(id);
+            if (!file) continue;
+
+            const controller = new AbortController();
+            controllersRef.current.set(id, controller);
+            activeRef.current.add(id);
+            updateItem(id, { status: 'uploading', error: null });
+
+            sendFile(id, file, controller.signal)
+                .then((response) => updateItem(id, { status: 'success', response, speed: 0 }))
+                .catch((err) =>
+                    updateItem(
+                        id,
+                        controller.signal.aborted
+                            ? { status: 'cancelled', speed: 0 }
+                            : { status: 'error', error: err instanceof Error ? err.message : 'Upload failed', speed: 0 }
+                    )
+                )
+                .then(() => {
+                    activeRef.current.delete(id);
+                    controllersRef.current.delete(id);
+                    pump();
+                });
+        }
+    };
 
-        return () => {
-            script.removeEventListener('load', handleLoad);
-            script.removeEventListener('error', handleError);
+    const upload = useCallback((files: File[] | FileList) => {
+        const ids: string[] = [];
+        const items: UploadItem[] = [];
+
+        Array.from(files).forEach((file) => {
+            const id = getFileFingerprint(file);
+            if (activeRef.current.has(id) || queueRef.current.indexOf(id) !== -1) return;
+
+            filesRef.current.set(id, file);
+            queueRef.current.push(id);
+            ids.push(id);
+            items.push({
+                id,
+                name: file.name,
+                size: file.size,
+                loaded: 0,
+                percent: 0,
+                speed: 0,
+                status: 'queued',
+                error: null,
+                response: null,
+            });
+        });
 
-            if (removeOnUnmount) {
-                document.body.removeChild(script);
-            }
-        };
-    }, [src, removeOnUnmount]);
+        setUploads((prev) => [...prev.filter((item) => ids.indexOf(item.id) === -1), ...items]);
+        pump();
+        return ids;
+    }, []);
 
-    return status;
-}
+    const cancel = useCallback((id: string) => {
+        queueRef.current = queueRef.current.filter((queued) => queued !== id);
+        const controller = controllersRef.current.get(id);
+        if (controller) {
+            controller.abort();
+        } else {
+            updateItem(id, { status: 'cancelled', speed: 0 });
+        }
+    }, []);
 
-export function useIndexedDB<T>(dbName: string, storeName: string) {
-    const [data, setData] = useState<T | null>(null);
-    const [error, setError] = useState<Error | null>(null);
+    const retry = useCallback((id: string, file?: File) => {
+        if (file) filesRef.current.set(id, file);
+        if (!filesRef.current.has(id) || activeRef.current.has(id) || queueRef.current.indexOf(id) !== -1) return;
 
-    useEffect(() => {
-        const fetchData = async () => {
-            try {
-                const request = indexedDB.open(dbName, 1);
-                request.onsuccess = () => {
-                    const db = request.result;
-                    const transaction = db.transaction(storeName, 'readonly');
-                    const store = transaction.objectStore(storeName);
-                    const getRequest = store.getAll();
-
-                    getRequest.onsuccess = () => {
-                        setData(getRequest.result as any);
-                    };
-
-                    getRequest.onerror = () => {
-                        setError(new Error('Failed to fetch data from IndexedDB'));
-                    };
-                };
+        queueRef.current.push(id);
+        updateItem(id, { status: 'queued', error: null });
+        pump();
+    }, []);
 
-                request.onerror = () => {
-                    setError(new Error('Failed to open IndexedDB'));
-                };
-            } catch (err) {
-                setError(err instanceof Error ? err : new Error('Unknown error'));
+    const remove = useCallback(
+        (id: string) => {
+            cancel(id);
+            filesRef.current.delete(id);
+            setUploads((prev) => prev.filter((item) => item.id !== id));
+            setResumable((prev) => prev.filter((item) => item.id !== id));
+            if (optionsRef.current.persist !== false) {
+                withRecords('readwrite', (store) => store.delete(id)).catch(() => undefined);
             }
-        };
+        },
+        [cancel, withRecords]
+    );
 
-        fetchData();
-    }, [dbName, storeName]);
+    const totalSize = uploads.reduce((sum, item) => sum + item.size, 0);
+    const totalLoaded = uploads.reduce((sum, item) => sum + item.loaded, 0);
 
-    return { data, error };
+    return {
+        uploads,
+        resumable,
+        totalPercent: totalSize ? Math.round((totalLoaded / totalSize) * 100) : 0,
+        upload,
+        cancel,
+        retry,
+        remove,
+    };
 }
 
 export function useGeoLocation() {
@@ -1170,39 +5706,10 @@ export const usePreferredLanguage = (): UsePreferredLanguage => {
 };
 
 
-interface UseSessionStorage<T> {
-    (key: string, initialValue: T): [T, (value: T) => void];
+export function useSessionStorage<T>(key: string, initialValue: T, options?: StorageOptions<T>): StorageStateReturn<T> {
+    return useStorageState('session', key, initialValue, options);
 }
 
-export const useSessionStorage: UseSessionStorage<any> = (key, initialValue) => {
-    const [storedValue, setStoredValue] = useState(() => {
-        if (!isReady()) {
-            return initialValue;
-        }
-        try {
-            const item = window.sessionStorage.getItem(key);
-            return item ? JSON.parse(item) : initialValue;
-        } catch (error) {
-            console.warn(`Error reading sessionStorage key "${key}":`, error);
-            return initialValue;
-        }
-    });
-
-    const setValue = (value: any) => {
-        try {
-            const valueToStore = value instanceof Function ? value(storedValue) : value;
-            setStoredValue(valueToStore);
-            if (isReady()) {
-                window.sessionStorage.setItem(key, JSON.stringify(valueToStore));
-            }
-        } catch (error) {
-            console.warn(`Error setting sessionStorage key "${key}":`, error);
-        }
-    };
-
-    return [storedValue, setValue];
-};
-
 interface UseSound {
     play: () => void;
     pause: () => void;
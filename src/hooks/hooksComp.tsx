@@ -56,17 +56,19 @@ export function useIntersectionObserver<T extends HTMLElement>(
   const [isIntersecting, setIsIntersecting] = useState(false);
 
   useEffect(() => {
+    // Nothing to observe, or no IntersectionObserver (jsdom, older browsers): stay non-intersecting.
+    const current = ref.current;
+    if (!current || typeof IntersectionObserver === 'undefined') return;
+
     const observer = new IntersectionObserver(([entry]) => setIsIntersecting(entry.isIntersecting), {
       root,
       rootMargin,
       threshold,
     });
-
-    const current = ref.current;
-    if (current) observer.observe(current);
+    observer.observe(current);
 
     return () => {
-      if (current) observer.unobserve(current);
+      observer.unobserve(current);
     };
   }, [ref, root, rootMargin, threshold]);
 
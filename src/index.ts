@@ -50,6 +50,42 @@ import {
     useSpeak,
     useCountUp,
     useCountDown,
+    getQueryData,
+    setQueryData,
+    invalidateQueries,
+    refetchQueries,
+    createAuthInterceptor,
+    createRefreshInterceptor,
+    useInfiniteFetch,
+    usePaginatedFetch,
+    useMutation,
+    usePolling,
+    useOfflineQueue,
+    useWebSocket,
+    useWebSocketSubscription,
+    useEventSource,
+    useUpload,
+    useGraphQLQuery,
+    useGraphQLMutation,
+    HooksProvider,
+    useHooksConfig,
+    useTransport,
+    createMockAdapter,
+    jsonSerializer,
+    richJsonSerializer,
+    sweepExpiredStorage,
+    useCookies,
+    useBroadcastState,
+    useLeaderElection,
+    useFieldArray,
+    useWizard,
+    thunkMiddleware,
+    loggerMiddleware,
+    createPersistMiddleware,
+    createStore,
+    useStore,
+    shallowEqual,
+    clearQueryCache,
 } from './hooks/hooks'
 
 import {
@@ -125,4 +161,40 @@ export {
     useSpeak,
     useCountUp,
     useCountDown,
+    getQueryData,
+    setQueryData,
+    invalidateQueries,
+    refetchQueries,
+    createAuthInterceptor,
+    createRefreshInterceptor,
+    useInfiniteFetch,
+    usePaginatedFetch,
+    useMutation,
+    usePolling,
+    useOfflineQueue,
+    useWebSocket,
+    useWebSocketSubscription,
+    useEventSource,
+    useUpload,
+    useGraphQLQuery,
+    useGraphQLMutation,
+    HooksProvider,
+    useHooksConfig,
+    useTransport,
+    createMockAdapter,
+    jsonSerializer,
+    richJsonSerializer,
+    sweepExpiredStorage,
+    useCookies,
+    useBroadcastState,
+    useLeaderElection,
+    useFieldArray,
+    useWizard,
+    thunkMiddleware,
+    loggerMiddleware,
+    createPersistMiddleware,
+    createStore,
+    useStore,
+    shallowEqual,
+    clearQueryCache,
 }
@@ -0,0 +1,134 @@
+import { createElement, ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+    clearQueryCache,
+    createMockAdapter,
+    HooksConfig,
+    HooksProvider,
+    invalidateQueries,
+    MockAdapter,
+    MockRequest,
+    setQueryData,
+    useFetch,
+} from '../src/hooks/hooks';
+
+interface User {
+    id: number;
+    name: string;
+}
+
+const withProvider = (value: HooksConfig) => ({ children }: { children?: ReactNode }) =>
+    createElement(HooksProvider, { value }, children);
+
+const countRequests = (adapter: MockAdapter, url: string) => adapter.requests.filter((request) => request.url === url).length;
+
+describe('query cache', () => {
+    afterEach(() => clearQueryCache());
+
+    it('deduplicates concurrent requests from several subscribers', async () => {
+        const adapter = createMockAdapter({ routes: [{ url: '/users/1', body: { id: 1, name: 'Ada' } }], latency: 10 });
+        const wrapper = withProvider(adapter);
+
+        const first = renderHook(() => useFetch<User>('/users/1'), { wrapper });
+        const second = renderHook(() => useFetch<User>('/users/1'), { wrapper });
+        expect(first.result.current.loading).toBe(true);
+
+        await waitFor(() => expect(second.result.current.data).toEqual({ id: 1, name: 'Ada' }));
+        expect(first.result.current.data).toEqual({ id: 1, name: 'Ada' });
+        expect(countRequests(adapter, '/users/1')).toBe(1);
+
+        first.unmount();
+        second.unmount();
+    });
+
+    it('serves cached data while revalidating after invalidation', async () => {
+        let name = 'Ada';
+        const adapter = createMockAdapter({ routes: [{ url: '/users/1', body: () => ({ id: 1, name }) }], latency: 10 });
+        const { result, unmount } = renderHook(() => useFetch<User>('/users/1', { staleTime: 60000 }), {
+            wrapper: withProvider(adapter),
+        });
+        await waitFor(() => expect(result.current.data?.name).toBe('Ada'));
+
+        name = 'Grace';
+        act(() => invalidateQueries('/users/1'));
+        expect(result.current.data?.name).toBe('Ada');
+        expect(result.current.isFetching).toBe(true);
+
+        await waitFor(() => expect(result.current.data?.name).toBe('Grace'));
+        expect(result.current.isStale).toBe(false);
+        expect(countRequests(adapter, '/users/1')).toBe(2);
+
+        unmount();
+    });
+
+    it('does not refetch fresh data on remount within staleTime', async () => {
+        const adapter = createMockAdapter({ routes: [{ url: '/users/1', body: { id: 1, name: 'Ada' } }] });
+        const wrapper = withProvider(adapter);
+
+        const first = renderHook(() => useFetch<User>('/users/1', { staleTime: 60000 }), { wrapper });
+        await waitFor(() => expect(first.result.current.data).not.toBeNull());
+        first.unmount();
+
+        const second = renderHook(() => useFetch<User>('/users/1', { staleTime: 60000 }), { wrapper });
+        expect(second.result.current.data).toEqual({ id: 1, name: 'Ada' });
+        expect(second.result.current.loading).toBe(false);
+        expect(countRequests(adapter, '/users/1')).toBe(1);
+
+        second.unmount();
+    });
+
+    it('pushes setQueryData writes to every subscriber', async () => {
+        const adapter = createMockAdapter({ routes: [{ url: '/users/1', body: { id: 1, name: 'Ada' } }] });
+        const { result, unmount } = renderHook(() => useFetch<User>('/users/1', { staleTime: 60000 }), {
+            wrapper: withProvider(adapter),
+        });
+        await waitFor(() => expect(result.current.data).not.toBeNull());
+
+        act(() => setQueryData<User>('/users/1', (previous) => ({ ...previous!, name: 'Lovelace' })));
+        expect(result.current.data).toEqual({ id: 1, name: 'Lovelace' });
+        expect(countRequests(adapter, '/users/1')).toBe(1);
+
+        unmount();
+    });
+
+    it('keeps a failed entry stale so the next mount retries', async () => {
+        const adapter = createMockAdapter({
+            routes: [
+                { url: '/users/1', error: 'Network down', times: 1 },
+                { url: '/users/1', body: { id: 1, name: 'Ada' } },
+            ],
+        });
+        const wrapper = withProvider(adapter);
+
+        const first = renderHook(() => useFetch<User>('/users/1', { staleTime: 60000 }), { wrapper });
+        await waitFor(() => expect(first.result.current.error).toBe('Network down'));
+        expect(first.result.current.loading).toBe(false);
+        expect(first.result.current.isStale).toBe(true);
+        first.unmount();
+
+        const second = renderHook(() => useFetch<User>('/users/1', { staleTime: 60000 }), { wrapper });
+        await waitFor(() => expect(second.result.current.data).toEqual({ id: 1, name: 'Ada' }));
+        expect(countRequests(adapter, '/users/1')).toBe(2);
+
+        second.unmount();
+    });
+
+    it('keeps providers with different headers in separate cache scopes', async () => {
+        const adapter = createMockAdapter({
+            routes: [{ url: '/me', body: (request: MockRequest) => ({ id: 0, name: request.headers['x-tenant'] }) }],
+        });
+        const tenantA = withProvider({ fetch: adapter.fetch, headers: { 'x-tenant': 'a' } });
+        const tenantB = withProvider({ fetch: adapter.fetch, headers: { 'x-tenant': 'b' } });
+
+        const a = renderHook(() => useFetch<User>('/me'), { wrapper: tenantA });
+        const b = renderHook(() => useFetch<User>('/me'), { wrapper: tenantB });
+
+        await waitFor(() => expect(a.result.current.data?.name).toBe('a'));
+        await waitFor(() => expect(b.result.current.data?.name).toBe('b'));
+        expect(countRequests(adapter, '/me')).toBe(2);
+
+        a.unmount();
+        b.unmount();
+    });
+});
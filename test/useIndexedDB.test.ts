@@ -0,0 +1,109 @@
+import 'fake-indexeddb/auto';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { IndexedDBSchema, useIndexedDB } from '../src/hooks/hooks';
+
+interface Todo {
+    id: number;
+    title: string;
+    done: number;
+}
+
+const todosV1: IndexedDBSchema = { version: 1, stores: [{ name: 'todos', keyPath: 'id' }] };
+
+const todosV2: IndexedDBSchema = {
+    version: 2,
+    stores: [{ name: 'todos', keyPath: 'id', indexes: [{ name: 'byDone', keyPath: 'done' }] }],
+};
+
+// Each test gets its own database so fake-indexeddb state never leaks between them.
+let dbCounter = 0;
+const nextDbName = () => `test-db-${++dbCounter}`;
+
+describe('useIndexedDB', () => {
+    it('creates declared stores and supports CRUD', async () => {
+        const dbName = nextDbName();
+        const { result, unmount } = renderHook(() => useIndexedDB<Todo>(dbName, 'todos', { schema: todosV1 }));
+        await waitFor(() => expect(result.current.loading).toBe(false));
+        expect(result.current.data).toEqual([]);
+
+        await act(async () => {
+            await result.current.add({ id: 1, title: 'write tests', done: 0 });
+            await result.current.put({ id: 2, title: 'ship', done: 0 });
+        });
+        await waitFor(() => expect(result.current.data).toHaveLength(2));
+
+        await act(async () => {
+            await result.current.put({ id: 2, title: 'ship', done: 1 });
+            await result.current.delete(1);
+        });
+        await waitFor(() => expect(result.current.data).toEqual([{ id: 2, title: 'ship', done: 1 }]));
+        expect(await result.current.get(2)).toEqual({ id: 2, title: 'ship', done: 1 });
+
+        unmount();
+    });
+
+    it('upgrades the schema, runs migrate and keeps existing records', async () => {
+        const dbName = nextDbName();
+        const v1 = renderHook(() => useIndexedDB<Todo>(dbName, 'todos', { schema: todosV1 }));
+        await waitFor(() => expect(v1.result.current.loading).toBe(false));
+        await act(async () => {
+            await v1.result.current.add({ id: 1, title: 'old', done: 1 });
+            await v1.result.current.add({ id: 2, title: 'open', done: 0 });
+        });
+        v1.unmount();
+
+        const migrate = vi.fn();
+        const v2 = renderHook(() =>
+            useIndexedDB<Todo>(dbName, 'todos', { schema: { ...todosV2, migrate }, query: { index: 'byDone', range: 0 } })
+        );
+        await waitFor(() => expect(v2.result.current.data).toEqual([{ id: 2, title: 'open', done: 0 }]));
+
+        expect(migrate).toHaveBeenCalledTimes(1);
+        expect(migrate.mock.calls[0].slice(2)).toEqual([1, 2]);
+        expect(await v2.result.current.count()).toBe(2);
+
+        v2.unmount();
+    });
+
+    it('pages through an index with offset and limit', async () => {
+        const dbName = nextDbName();
+        const { result, unmount } = renderHook(() => useIndexedDB<Todo>(dbName, 'todos', { schema: todosV2 }));
+        await waitFor(() => expect(result.current.loading).toBe(false));
+
+        await act(async () => {
+            for (let id = 1; id <= 5; id++) await result.current.add({ id, title: `todo ${id}`, done: id % 2 });
+        });
+
+        const page = await result.current.query({ index: 'byDone', range: IDBKeyRange.only(1), offset: 1, limit: 1 });
+        expect(page.map((todo) => todo.id)).toEqual([3]);
+
+        const reversed = await result.current.query({ direction: 'prev', limit: 2 });
+        expect(reversed.map((todo) => todo.id)).toEqual([5, 4]);
+
+        unmount();
+    });
+
+    it('re-runs the live query of every instance after a write from any of them', async () => {
+        const dbName = nextDbName();
+        const writer = renderHook(() => useIndexedDB<Todo>(dbName, 'todos', { schema: todosV2 }));
+        const reader = renderHook(() =>
+            useIndexedDB<Todo>(dbName, 'todos', { schema: todosV2, query: { index: 'byDone', range: 0 } })
+        );
+        await waitFor(() => expect(reader.result.current.loading).toBe(false));
+        expect(reader.result.current.data).toEqual([]);
+
+        await act(async () => {
+            await writer.result.current.add({ id: 1, title: 'fresh', done: 0 });
+        });
+        await waitFor(() => expect(reader.result.current.data).toEqual([{ id: 1, title: 'fresh', done: 0 }]));
+
+        await act(async () => {
+            await writer.result.current.clear();
+        });
+        await waitFor(() => expect(reader.result.current.data).toEqual([]));
+
+        writer.unmount();
+        reader.unmount();
+    });
+});
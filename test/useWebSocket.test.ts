@@ -0,0 +1,141 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useWebSocket, useWebSocketSubscription } from '../src/hooks/hooks';
+
+// Stands in for a ws server: each socket is driven by hand through open/receive/drop.
+class FakeWebSocket {
+    static CONNECTING = 0;
+    static OPEN = 1;
+    static CLOSING = 2;
+    static CLOSED = 3;
+    static instances: FakeWebSocket[] = [];
+
+    readyState = FakeWebSocket.CONNECTING;
+    sent: unknown[] = [];
+    onopen: ((event: Event) => void) | null = null;
+    onmessage: ((event: MessageEvent) => void) | null = null;
+    onclose: ((event: CloseEvent) => void) | null = null;
+    onerror: ((event: Event) => void) | null = null;
+
+    constructor(public url: string, public protocols?: string | string[]) {
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: unknown) {
+        this.sent.push(data);
+    }
+
+    close() {
+        if (this.readyState === FakeWebSocket.CLOSED) return;
+        this.readyState = FakeWebSocket.CLOSED;
+        this.onclose?.(new CloseEvent('close'));
+    }
+
+    open() {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen?.(new Event('open'));
+    }
+
+    receive(data: unknown) {
+        this.onmessage?.(new MessageEvent('message', { data: typeof data === 'string' ? data : JSON.stringify(data) }));
+    }
+}
+
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+describe('useWebSocket', () => {
+    beforeEach(() => {
+        FakeWebSocket.instances = [];
+        vi.stubGlobal('WebSocket', FakeWebSocket);
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('queues messages while connecting and flushes them once open', () => {
+        const { result, unmount } = renderHook(() => useWebSocket('ws://test/queue'));
+        expect(result.current.status).toBe('connecting');
+
+        act(() => result.current.send({ hello: 'world' }));
+        expect(latestSocket().sent).toEqual([]);
+
+        act(() => latestSocket().open());
+        expect(result.current.status).toBe('open');
+        expect(latestSocket().sent).toEqual([JSON.stringify({ hello: 'world' })]);
+
+        unmount();
+    });
+
+    it('reconnects with backoff after an unexpected close and resends queued messages', () => {
+        const { result, unmount } = renderHook(() => useWebSocket('ws://test/reconnect', { reconnectDelay: 1000 }));
+        act(() => latestSocket().open());
+
+        act(() => latestSocket().close());
+        expect(result.current.status).toBe('reconnecting');
+        expect(result.current.reconnectAttempt).toBe(1);
+        expect(FakeWebSocket.instances).toHaveLength(1);
+
+        act(() => result.current.send('while offline'));
+        act(() => {
+            vi.advanceTimersByTime(1000);
+        });
+        expect(FakeWebSocket.instances).toHaveLength(2);
+
+        act(() => latestSocket().open());
+        expect(result.current.status).toBe('open');
+        expect(result.current.reconnectAttempt).toBe(0);
+        expect(latestSocket().sent).toEqual(['while offline']);
+
+        unmount();
+    });
+
+    it('stops after maxReconnectAttempts', () => {
+        const { result, unmount } = renderHook(() =>
+            useWebSocket('ws://test/give-up', { reconnectDelay: 10, maxReconnectAttempts: 1 })
+        );
+
+        act(() => latestSocket().close());
+        act(() => {
+            vi.advanceTimersByTime(10);
+        });
+        act(() => latestSocket().close());
+
+        expect(result.current.status).toBe('closed');
+        expect(FakeWebSocket.instances).toHaveLength(2);
+        unmount();
+    });
+
+    it('shares one socket between hooks and filters subscriptions by message type', () => {
+        const chat = renderHook(() => useWebSocketSubscription<{ type: string; text: string }>('ws://test/shared', 'chat'));
+        const presence = renderHook(() => useWebSocketSubscription<{ type: string }>('ws://test/shared', 'presence'));
+        expect(FakeWebSocket.instances).toHaveLength(1);
+
+        act(() => latestSocket().open());
+        act(() => latestSocket().receive({ type: 'chat', text: 'hi' }));
+
+        expect(chat.result.current.lastMessage).toEqual({ type: 'chat', text: 'hi' });
+        expect(presence.result.current.lastMessage).toBeNull();
+
+        chat.unmount();
+        presence.unmount();
+    });
+
+    it('closes the shared socket only when its last subscriber detaches', () => {
+        const first = renderHook(() => useWebSocket('ws://test/detach'));
+        const second = renderHook(() => useWebSocket('ws://test/detach'));
+        const socket = latestSocket();
+        act(() => socket.open());
+
+        act(() => first.result.current.close());
+        expect(first.result.current.status).toBe('closed');
+        expect(second.result.current.status).toBe('open');
+        expect(socket.readyState).toBe(FakeWebSocket.OPEN);
+
+        second.unmount();
+        expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+        first.unmount();
+    });
+});